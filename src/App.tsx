@@ -1,13 +1,26 @@
 import { useEffect, useMemo, useRef, useState, type ReactNode } from "react";
-import { AgentClient, type AgentState } from "./agent/wsClient";
+import {
+  AgentClient,
+  type AgentClientOptions,
+  type AgentState,
+  type ConnectionStatus,
+  type McpServerInfo,
+  type ModelSummary,
+  type ThreadInfo,
+  type ToolManifest,
+  type ToolName,
+} from "./agent/wsClient";
 import { ToolCard, type ToolUI } from "./components/chat/ToolCard";
-import { WeatherWidget } from "./components/chat/WeatherWidget";
+import { ThreadSidebar } from "./components/chat/ThreadSidebar";
+import { WeatherWidget, type GeoCandidate } from "./components/chat/WeatherWidget";
 import { WikiWidget } from "./components/chat/WikiWidget";
 import { ISSWidget } from "./components/chat/ISSWidget";
-import type { IssResult } from "../worker/tools/getISS";
+import { McpResultCard } from "./components/chat/McpResultCard";
+import { JsonResultCard } from "./components/chat/JsonResultCard";
+import { McpServers } from "./components/chat/McpServers";
 
-import type { WeatherResult } from "../worker/tools/getWeather";
-import type { WikiResult } from "../worker/tools/getWiki";
+import type { ToolOutput } from "../worker/tools";
+import { isToolResult } from "../worker/protocol";
 
 import "./index.css";
 import "./App.css";
@@ -71,141 +84,48 @@ function mdToHtml(input: string): string {
 
 /** What we render in the chat list */
 export type ChatMessage =
-  | { id: string; role: "user" | "assistant"; content: string }
+  | { id: string; role: "user" | "assistant"; content: string; serverId?: number; siblings?: number[] }
   | { id: string; role: "tool"; toolUI: ToolUI }
-  | { id: string; role: "tool"; weather: WeatherResult }
-  | { id: string; role: "tool"; wiki: WikiResult }
-  | { id: string; role: "tool"; iss: IssResult };
-
-/** Tool events the WS can deliver */
-type ToolEvent =
-  | { type: "tool"; tool: "getWeather"; status: "started" | "step" | "done" | "error"; message?: string; result?: WeatherResult }
-  | { type: "tool"; tool: "getWiki";    status: "started" | "step" | "done" | "error"; message?: string; result?: WikiResult }
-  | { type: "tool"; tool: "getISS";     status: "started" | "step" | "done" | "error"; message?: string; result?: IssResult };
-
-/* ------------------------- Type guards / helpers ------------------------ */
-
-type ServerMsgRow = { role: string; content: string; ts: number };
-
-function isRecord(v: unknown): v is Record<string, unknown> {
-  return typeof v === "object" && v !== null;
-}
-function hasStr<K extends string>(obj: Record<string, unknown>, key: K): obj is Record<K, string> {
-  return key in obj && typeof obj[key] === "string";
-}
-function hasNum<K extends string>(obj: Record<string, unknown>, key: K): obj is Record<K, number> {
-  return key in obj && typeof obj[key] === "number";
-}
-function isServerMsgRow(v: unknown): v is ServerMsgRow {
-  return isRecord(v) && hasStr(v, "role") && hasStr(v, "content") && hasNum(v, "ts");
-}
-
-function isToolEvent(v: unknown): v is ToolEvent {
-  if (!isRecord(v)) return false;
-  if (v.type !== "tool") return false;
-  const tool = v.tool;
-  const status = v.status;
-  const toolOk = tool === "getWeather" || tool === "getWiki" || tool === "getISS";
-  const statusOk = status === "started" || status === "step" || status === "done" || status === "error";
-  return toolOk && statusOk;
-}
-
-function isWeatherResult(v: unknown): v is WeatherResult {
-  if (!isRecord(v) || typeof v.ok !== "boolean") return false;
-  if (v.ok === false) return hasStr(v, "error");
-  return isRecord(v.place) && isRecord(v.units) && Array.isArray(v.daily);
-}
-function isWikiResult(v: unknown): v is WikiResult {
-  if (!isRecord(v) || typeof v.ok !== "boolean") return false;
-  if (v.ok === false) return hasStr(v, "error");
-  return hasStr(v, "title") && hasStr(v, "extract") && hasStr(v, "pageUrl") && hasStr(v, "lang");
-}
-function isIssResult(v: unknown): v is IssResult {
-  if (!isRecord(v)) return false;
-  if (typeof (v as Record<string, unknown>).ok !== "boolean") return false;
-
-  const r = v as Record<string, unknown>;
-  if (r.ok === false) return typeof r.error === "string";
-
-  // ok === true: flat structure { ok, lat, lon, altitude_km?, velocity_kmh?, visibility?, ts }
-  return (
-    typeof r.lat === "number" &&
-    typeof r.lon === "number" &&
-    typeof r.ts === "number"
-  );
-}
+  | ({ id: string; role: "tool" } & ToolOutput);
 
 /* --------------------------- Progress helpers --------------------------- */
 
 type StepState = "idle" | "active" | "done" | "error";
 type ToolUIProgress = Extract<ToolUI, { kind: "progress" }>;
 
-function initialWeatherProgress(): ToolUI {
-  return {
-    kind: "progress",
-    title: "Weather",
-    progress: {
-      tool: "getWeather",
-      phase: "running",
-      steps: [
-        { key: "plan",  label: "Plan intent",               state: "active" as StepState },
-        { key: "fetch", label: "Fetch from Open-Meteo API", state: "idle"   as StepState },
-        { key: "parse", label: "Parse forecast",            state: "idle"   as StepState },
-        { key: "final", label: "Finalize",                  state: "idle"   as StepState },
-      ],
-    },
-  };
-}
-function initialWikiProgress(): ToolUI {
-  return {
-    kind: "progress",
-    title: "Wikipedia",
-    progress: {
-      tool: "getWiki",
-      phase: "running",
-      steps: [
-        { key: "plan",  label: "Understand query", state: "active" as StepState },
-        { key: "search",label: "Search Wikipedia", state: "idle"   as StepState },
-        { key: "fetch", label: "Fetch summary",    state: "idle"   as StepState },
-        { key: "final", label: "Finalize",         state: "idle"   as StepState },
-      ],
-    },
-  };
+/** Fallback when the server didn't describe a tool in its `ready` frame */
+function fallbackManifest(tool: ToolName): ToolManifest {
+  return { name: tool, title: tool, steps: [{ key: "run", label: "Run tool" }] };
 }
 
-function initialISSProgress(): ToolUI {
+function initialProgress(manifest: ToolManifest, callId?: string): ToolUIProgress {
   return {
     kind: "progress",
-    title: "ISS Tracker",
+    title: manifest.title,
     progress: {
-      tool: "getISS",
+      tool: manifest.name,
+      callId,
       phase: "running",
-      steps: [
-        { key: "plan",  label: "Understand request", state: "active" as StepState },
-        { key: "fetch", label: "Fetch position",     state: "idle"   as StepState },
-        { key: "final", label: "Finalize",           state: "idle"   as StepState },
-      ],
+      steps: manifest.steps.map((s, i) => ({ ...s, state: (i === 0 ? "active" : "idle") as StepState })),
     },
   };
 }
 
-function setStepState(ui: ToolUI, key: string, state: StepState): ToolUI {
+/** Mark every step before `key` done and `key` active */
+function advanceProgress(ui: ToolUI, key: string, note?: string): ToolUI {
   if (ui.kind !== "progress") return ui;
-  const steps = ui.progress.steps.map((s) => (s.key === key ? { ...s, state } : s));
+  const idx = ui.progress.steps.findIndex((s) => s.key === key);
+  if (idx === -1) return ui;
+  const steps = ui.progress.steps.map((s, i) =>
+    i < idx ? { ...s, state: "done" as StepState } : i === idx ? { ...s, state: "active" as StepState, note: note ?? s.note } : s
+  );
   return { ...ui, progress: { ...ui.progress, steps } };
 }
-function markSequence(ui: ToolUI, activate: string, doneKeys: string[]): ToolUI {
-  let next: ToolUI = ui;
-  for (const k of doneKeys) next = setStepState(next, k, "done");
-  return setStepState(next, activate, "active");
-}
-function finalizeProgress(ui?: ToolUI): ToolUI {
-  const base: ToolUIProgress = ui && ui.kind === "progress" ? ui : (initialWeatherProgress() as ToolUIProgress);
+function finalizeProgress(base: ToolUIProgress): ToolUI {
   const steps = base.progress.steps.map((s) => (s.state === "done" ? s : { ...s, state: "done" as StepState }));
   return { kind: "progress", title: base.title, subtitle: base.subtitle, progress: { ...base.progress, phase: "done", steps } };
 }
-function errorProgress(ui?: ToolUI, msg?: string): ToolUI {
-  const base: ToolUIProgress = ui && ui.kind === "progress" ? ui : (initialWeatherProgress() as ToolUIProgress);
+function errorProgress(base: ToolUIProgress, msg?: string): ToolUI {
   const steps = base.progress.steps.map((s) => (s.state === "active" ? { ...s, state: "error" as const } : s));
   return {
     kind: "progress",
@@ -214,27 +134,41 @@ function errorProgress(ui?: ToolUI, msg?: string): ToolUI {
     progress: { ...base.progress, phase: "error", error: msg ?? "Something went wrong", steps },
   };
 }
+function findProgressIdx(messages: ChatMessage[], callId: string): number {
+  return messages.findIndex(
+    (m) => m.role === "tool" && "toolUI" in m && m.toolUI.kind === "progress" && m.toolUI.progress.callId === callId
+  );
+}
 function upsertProgressFor(
-  tool: "getWeather" | "getWiki" | "getISS",
-  init: () => ToolUI,
-  mutator: (prev?: ToolUI) => ToolUI,
+  callId: string,
+  init: () => ToolUIProgress,
+  mutator: (prev: ToolUIProgress) => ToolUI,
   setMessages: React.Dispatch<React.SetStateAction<ChatMessage[]>>
 ) {
   setMessages((prev) => {
     const next = [...prev];
-    const revIdx = [...next].reverse().findIndex(
-      (m) => m.role === "tool" && "toolUI" in m && m.toolUI.kind === "progress" && m.toolUI.progress.tool === tool
-    );
-    if (revIdx === -1) {
+    const idx = findProgressIdx(next, callId);
+    if (idx === -1) {
       next.push({ id: crypto.randomUUID(), role: "tool", toolUI: mutator(init()) });
       return next;
     }
-    const idx = next.length - 1 - revIdx;
-    const cur = (next[idx] as Extract<ChatMessage, { role: "tool"; toolUI: ToolUI }>).toolUI;
+    const cur = (next[idx] as Extract<ChatMessage, { role: "tool"; toolUI: ToolUI }>).toolUI as ToolUIProgress;
     next[idx] = { ...(next[idx] as Extract<ChatMessage, { role: "tool"; toolUI: ToolUI }>), toolUI: mutator(cur) };
     return next;
   });
 }
+/** Results go right after their own card so parallel calls render in planner order */
+function insertAfterProgress(
+  callId: string,
+  msg: ChatMessage,
+  setMessages: React.Dispatch<React.SetStateAction<ChatMessage[]>>
+) {
+  setMessages((prev) => {
+    const idx = findProgressIdx(prev, callId);
+    if (idx === -1) return [...prev, msg];
+    return [...prev.slice(0, idx + 1), msg, ...prev.slice(idx + 1)];
+  });
+}
 
 /* --------------------------- Chat components ---------------------------- */
 
@@ -260,7 +194,138 @@ function MessageBubble(props: { role: "user" | "assistant"; children?: ReactNode
   );
 }
 
-function ChatInput(props: { onSend: (t: string) => void; disabled?: boolean }) {
+/** Edit / regenerate buttons and the "‹ 2/3 ›" pager for alternative versions */
+function MessageActions(props: {
+  align: "start" | "end";
+  serverId?: number;
+  siblings?: number[];
+  onBranch: (id: number) => void;
+  onEdit?: () => void;
+  onRegenerate?: () => void;
+  onRefresh?: () => void;
+}) {
+  const { siblings, serverId } = props;
+  const idx = siblings && serverId !== undefined ? siblings.indexOf(serverId) : -1;
+  const hasPager = siblings && idx !== -1;
+  if (!hasPager && !props.onEdit && !props.onRegenerate && !props.onRefresh) return null;
+
+  const btn = "rounded px-1.5 py-0.5 hover:bg-neutral-200/70 disabled:opacity-30 dark:hover:bg-neutral-800/70";
+  return (
+    <div className={`mt-1 flex items-center gap-1 text-xs text-neutral-500 dark:text-neutral-400 ${props.align === "end" ? "justify-end" : "justify-start"}`}>
+      {hasPager && (
+        <>
+          <button className={btn} disabled={idx === 0} onClick={() => props.onBranch(siblings[idx - 1])} aria-label="previous version">‹</button>
+          <span>{idx + 1}/{siblings.length}</span>
+          <button className={btn} disabled={idx === siblings.length - 1} onClick={() => props.onBranch(siblings[idx + 1])} aria-label="next version">›</button>
+        </>
+      )}
+      {props.onEdit && <button className={btn} onClick={props.onEdit}>Edit</button>}
+      {props.onRegenerate && <button className={btn} onClick={props.onRegenerate}>Regenerate</button>}
+      {props.onRefresh && (
+        <button className={btn} onClick={props.onRefresh} title="Fetch the tool data again instead of using cached results">
+          Refresh data
+        </button>
+      )}
+    </div>
+  );
+}
+
+function EditBox(props: { initial: string; onSave: (t: string) => void; onCancel: () => void }) {
+  const [v, setV] = useState(props.initial);
+  return (
+    <form
+      className="ml-auto flex w-full max-w-[85%] flex-col gap-2 md:max-w-[75%]"
+      onSubmit={(e) => {
+        e.preventDefault();
+        const t = v.trim();
+        if (t) props.onSave(t);
+      }}
+    >
+      <textarea
+        className="min-h-20 rounded-md border border-neutral-300 bg-white/70 p-2 text-sm dark:border-neutral-700 dark:bg-neutral-900/60"
+        value={v}
+        onChange={(e) => setV(e.target.value)}
+        autoFocus
+      />
+      <div className="flex justify-end gap-2">
+        <button type="button" className="btn" onClick={props.onCancel}>Cancel</button>
+        <button className="btn" disabled={!v.trim()}>Save & submit</button>
+      </div>
+    </form>
+  );
+}
+
+/** Server rows → chat messages (tool rows become a finished card plus their widget) */
+function restoreMessages(s: AgentState, manifestFor: (tool: ToolName) => ToolManifest): ChatMessage[] {
+  const restored: ChatMessage[] = [];
+  for (const r of s.messages) {
+    if (r.role === "tool") {
+      // Tool rows carry the tool name; the result is JSON-encoded in `content`
+      try {
+        const result = JSON.parse(r.content) as unknown;
+        if (typeof r.tool === "string" && isToolResult(result)) {
+          const tool = r.tool as ToolName;
+          restored.push({ id: crypto.randomUUID(), role: "tool", toolUI: finalizeProgress(initialProgress(manifestFor(tool))) });
+          restored.push({ id: crypto.randomUUID(), role: "tool", tool, result } as ChatMessage);
+          continue;
+        }
+      } catch {
+        // ignore; fallthrough to neutral card
+      }
+
+      restored.push({
+        id: crypto.randomUUID(),
+        role: "tool",
+        toolUI: { kind: "generic", title: "Tool", subtitle: "Result available" },
+      });
+      continue;
+    }
+
+    // user/assistant rows
+    restored.push({
+      id: crypto.randomUUID(),
+      role: r.role,
+      content: r.content,
+      serverId: r.id,
+      siblings: r.siblings,
+    });
+  }
+  return restored;
+}
+
+type McpOutput = Extract<ToolOutput, { tool: `mcp_${string}` }>;
+type ApiOutput = Extract<ToolOutput, { tool: `api_${string}` }>;
+const isMcpOutput = (p: ToolOutput): p is McpOutput => p.tool.startsWith("mcp_");
+const isApiOutput = (p: ToolOutput): p is ApiOutput => p.tool.startsWith("api_");
+
+/** Picks the widget for a tool result; unknown tools get a neutral card */
+function ToolResultView({
+  payload,
+  onRunTool,
+}: {
+  payload: ToolOutput;
+  onRunTool?: (tool: string, args: Record<string, unknown>, text: string) => void;
+}) {
+  switch (payload.tool) {
+    case "getWeather": {
+      const r = payload.result;
+      const onChoose =
+        onRunTool && r.ok && r.ambiguous
+          ? (c: GeoCandidate, label: string) =>
+              onRunTool("getWeather", { lat: c.lat, lon: c.lon, location: label, ...r.args }, label)
+          : undefined;
+      return <WeatherWidget result={r} onChoose={onChoose} />;
+    }
+    case "getWiki":    return <WikiWidget result={payload.result} />;
+    case "getISS":     return <ISSWidget result={payload.result} />;
+    default:
+      if (isMcpOutput(payload)) return <McpResultCard result={payload.result} />;
+      if (isApiOutput(payload)) return <JsonResultCard result={payload.result} />;
+      return <ToolCard ui={{ kind: "generic", title: "Tool", subtitle: "Result available" }} />;
+  }
+}
+
+function ChatInput(props: { onSend: (t: string) => void; onStop: () => void; disabled?: boolean; pending?: boolean }) {
   const [v, setV] = useState("");
   return (
     <form
@@ -280,24 +345,57 @@ function ChatInput(props: { onSend: (t: string) => void; disabled?: boolean }) {
         onChange={(e) => setV(e.target.value)}
         disabled={props.disabled}
       />
-      <button
-        className="rounded-md bg-black px-3 py-2 text-sm text-white disabled:opacity-50 dark:bg-white dark:text-black"
-        disabled={props.disabled}
-      >
-        Send
-      </button>
+      {props.pending ? (
+        <button
+          type="button"
+          className="rounded-md border border-neutral-300 px-3 py-2 text-sm dark:border-neutral-700"
+          onClick={props.onStop}
+          title="Stop generating"
+        >
+          Stop
+        </button>
+      ) : (
+        <button
+          className="rounded-md bg-black px-3 py-2 text-sm text-white disabled:opacity-50 dark:bg-white dark:text-black"
+          disabled={props.disabled}
+        >
+          Send
+        </button>
+      )}
     </form>
   );
 }
 
 /* -------------------------------- App ---------------------------------- */
 
-export default function App() {
+/** `identityToken`: for an embedding app on a deployment with an identity provider (see README) */
+export default function App({ identityToken }: { identityToken?: AgentClientOptions["identityToken"] } = {}) {
   const hydratedRef = useRef(false);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [pending, setPending] = useState(false);
   const clientRef = useRef<AgentClient | null>(null);
+  // The client asks for it whenever it needs a new session, so the latest prop is used
+  const identityRef = useRef(identityToken);
+  identityRef.current = identityToken;
   const scrollRef = useRef<HTMLDivElement | null>(null);
+  const toolsRef = useRef<Map<ToolName, ToolManifest>>(new Map());
+  const [threads, setThreads] = useState<ThreadInfo[]>([]);
+  const [activeThread, setActiveThread] = useState("");
+  const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [models, setModels] = useState<ModelSummary[]>([]);
+  const [model, setModel] = useState("");
+  const [notice, setNotice] = useState<string | null>(null);
+  const [mcpServers, setMcpServers] = useState<McpServerInfo[]>([]);
+  // Request id of the turn on screen - ours, or one another tab on this session started.
+  // A turn left behind by a thread switch is abandoned and any trailing frames dropped.
+  const requestRef = useRef<string | null>(null);
+  const abandonedRef = useRef(new Set<string>());
+  const pendingRef = useRef(false);
+  pendingRef.current = pending;
+  const [status, setStatus] = useState<ConnectionStatus>("connecting");
+
+  const manifestFor = (tool: ToolName) => toolsRef.current.get(tool) ?? fallbackManifest(tool);
 
   // Theme
   const [theme, setTheme] = useState<"light" | "dark">(() => {
@@ -316,82 +414,83 @@ export default function App() {
 
   // Connect once
   useEffect(() => {
-    if (!clientRef.current) clientRef.current = new AgentClient();
+    if (!clientRef.current) {
+      clientRef.current = new AgentClient({ identityToken: async () => (await identityRef.current?.()) ?? null });
+    }
     const client = clientRef.current;
 
-    client.onReady = (s: AgentState) => {
+    /** False for frames of an abandoned turn; otherwise makes their turn the one on screen */
+    const follow = (requestId?: string) => {
+      if (requestId === undefined) return true;
+      if (abandonedRef.current.has(requestId)) return false;
+      requestRef.current = requestId;
+      return true;
+    };
+
+    client.onReady = (s: AgentState, tools: ToolManifest[]) => {
+      toolsRef.current = new Map(tools.map((t) => [t.name, t]));
+      setModel(s.model);
+      client.listModels();
+      client.listMcp();
       if (!hydratedRef.current) {
-        const restored: ChatMessage[] = [];
-        const rowsUnknown = Array.isArray(s.messages) ? (s.messages as unknown[]) : [];
-        for (const r of rowsUnknown) {
-          if (!isServerMsgRow(r)) continue;
-
-          if (r.role === "tool") {
-            // Tool rows are JSON-encoded by the worker
-            try {
-              const payload = JSON.parse(r.content) as unknown;
-          
-              // Weather restore
-              if (
-                isRecord(payload) &&
-                payload.tool === "getWeather" &&
-                isWeatherResult((payload as { result?: unknown }).result)
-              ) {
-                restored.push({ id: crypto.randomUUID(), role: "tool", toolUI: finalizeProgress(initialWeatherProgress()) });
-                restored.push({ id: crypto.randomUUID(), role: "tool", weather: (payload as { result: WeatherResult }).result });
-                continue;
-              }
-          
-              // Wiki restore
-              if (
-                isRecord(payload) &&
-                payload.tool === "getWiki" &&
-                isWikiResult((payload as { result?: unknown }).result)
-              ) {
-                restored.push({
-                  id: crypto.randomUUID(),
-                  role: "tool",
-                  toolUI: finalizeProgress(initialWikiProgress()),
-                });
-                restored.push({ id: crypto.randomUUID(), role: "tool", wiki: (payload as { result: WikiResult }).result });
-                continue;
-              }
-          
-              // ISS restore
-              if (
-                isRecord(payload) &&
-                payload.tool === "getISS" &&
-                isIssResult((payload as { result?: unknown }).result)
-              ) {
-                restored.push({
-                  id: crypto.randomUUID(),
-                  role: "tool",
-                  toolUI: finalizeProgress(initialISSProgress()),
-                });
-                restored.push({ id: crypto.randomUUID(), role: "tool", iss: (payload as { result: IssResult }).result });
-                continue;
-              }
-            } catch {
-              // ignore; fallthrough to neutral card
-            }
-          
-            restored.push({
-              id: crypto.randomUUID(),
-              role: "tool",
-              toolUI: { kind: "generic", title: "Tool", subtitle: "Result available" },
-            });
-            continue;
-          }
-
-          // user/assistant rows
-          restored.push({ id: crypto.randomUUID(), role: r.role as "user" | "assistant", content: r.content });
-        }
+        const restored = restoreMessages(s, manifestFor);
         if (restored.length) setMessages(restored);
         hydratedRef.current = true;
+      } else if (!pendingRef.current) {
+        // Reconnected between turns: the server's copy is current. Mid-turn, `resume` catches up instead.
+        setMessages(restoreMessages(s, manifestFor));
       }
     };
+    client.onStatus = setStatus;
+    client.onResumed = (requestId, running) => {
+      if (follow(requestId)) setPending(running);
+    };
 
-    client.onDelta = (t) => {
+    // Switched threads: the server sends the new thread's transcript
+    client.onThread = (s: AgentState) => {
+      // Frames of the turn we left (e.g. a late resume replay) no longer belong on screen
+      if (requestRef.current) abandonedRef.current.add(requestRef.current);
+      requestRef.current = null;
+      setPending(false);
+      setMessages(restoreMessages(s, manifestFor));
+      hydratedRef.current = true;
+    };
+    client.onHistory = (s: AgentState, requestId) => {
+      if (!follow(requestId)) return;
+      setMessages(restoreMessages(s, manifestFor));
+    };
+    // The local message id doubles as the request id of the turn it started;
+    // a turn from another tab brings its user message along
+    client.onSaved = (serverId, text, requestId) => {
+      if (!follow(requestId)) return;
+      setPending(true);
+      setMessages((prev) =>
+        prev.some((m) => m.id === requestId && m.role === "user")
+          ? prev.map((m) => (m.id === requestId && m.role === "user" ? { ...m, serverId } : m))
+          : [...prev, { id: requestId ?? crypto.randomUUID(), role: "user", content: text, serverId }]
+      );
+    };
+    client.onModels = (list, current) => {
+      setModels(list);
+      if (current) setModel(current);
+    };
+    client.onError = (_code, message, requestId) => {
+      setNotice(message);
+      // The turn this request would have started isn't coming
+      if (requestId && requestId === requestRef.current) setPending(false);
+    };
+    client.onMcp = setMcpServers;
+    // MCP tools discovered after `ready` need their manifests for progress cards
+    client.onTools = (tools) => {
+      toolsRef.current = new Map(tools.map((t) => [t.name, t]));
+    };
+    client.onThreads = (list, activeId) => {
+      setThreads(list);
+      setActiveThread(activeId);
+    };
+
+    client.onDelta = (t, requestId) => {
+      if (!follow(requestId)) return;
       setPending(true);
       setMessages((m) => {
         const last = m[m.length - 1];
@@ -404,95 +503,38 @@ export default function App() {
       });
     };
 
-    client.onDone = () => setPending(false);
+    client.onDone = (requestId) => {
+      if (follow(requestId)) setPending(false);
+    };
+    client.onStopped = (requestId) => {
+      if (follow(requestId)) setPending(false);
+    };
     client.onCleared = () => {
       hydratedRef.current = false;
       setMessages([]);
     };
 
-    // Tool events (weather + wiki)
-    client.onTool = (raw: unknown) => {
-      if (!isToolEvent(raw)) return;
-      const evt = raw;
-
-      if (evt.tool === "getWeather") {
-        if (evt.status === "started") {
-          setMessages((prev) => [...prev, { id: crypto.randomUUID(), role: "tool", toolUI: initialWeatherProgress() }]);
-        } else if (evt.status === "step") {
-          const msg = (evt.message ?? "").toLowerCase();
-          upsertProgressFor(
-            "getWeather",
-            initialWeatherProgress,
-            (prev) => {
-              const base = prev && prev.kind === "progress" ? prev : initialWeatherProgress();
-              if (msg.includes("fetch")) return markSequence(base, "fetch", ["plan"]);
-              if (msg.includes("pars")) return markSequence(base, "parse", ["plan", "fetch"]);
-              if (msg.includes("final")) return markSequence(base, "final", ["plan", "fetch", "parse"]);
-              return base;
-            },
-            setMessages
-          );
-        } else if (evt.status === "done") {
-          upsertProgressFor("getWeather", initialWeatherProgress, (prev) => finalizeProgress(prev), setMessages);
-          if (evt.result && isWeatherResult(evt.result)) {
-            setMessages((prev) => [...prev, { id: crypto.randomUUID(), role: "tool", weather: evt.result } as ChatMessage]);
-          }
-        } else if (evt.status === "error") {
-          upsertProgressFor("getWeather", initialWeatherProgress, (prev) => errorProgress(prev, evt.message), setMessages);
-        }
-      }
-
-      if (evt.tool === "getWiki") {
-        if (evt.status === "started") {
-          setMessages((prev) => [...prev, { id: crypto.randomUUID(), role: "tool", toolUI: initialWikiProgress() }]);
-        } else if (evt.status === "step") {
-          const msg = (evt.message ?? "").toLowerCase();
-          upsertProgressFor(
-            "getWiki",
-            initialWikiProgress,
-            (prev) => {
-              const base = prev && prev.kind === "progress" ? prev : initialWikiProgress();
-              if (msg.includes("search")) return markSequence(base, "search", ["plan"]);
-              if (msg.includes("fetch"))  return markSequence(base, "fetch",  ["plan", "search"]);
-              if (msg.includes("final"))  return markSequence(base, "final",  ["plan", "search", "fetch"]);
-              return base;
-            },
-            setMessages
-          );
-        } else if (evt.status === "done") {
-          upsertProgressFor("getWiki", initialWikiProgress, (prev) => finalizeProgress(prev), setMessages);
-          if (evt.result && isWikiResult(evt.result)) {
-            setMessages((prev) => [...prev, { id: crypto.randomUUID(), role: "tool", wiki: evt.result } as ChatMessage]);
-          }
-        } else if (evt.status === "error") {
-          upsertProgressFor("getWiki", initialWikiProgress, (prev) => errorProgress(prev, evt.message), setMessages);
-        }
-      }
-
-      if (evt.tool === "getISS") {
-        if (evt.status === "started") {
-          setMessages((prev) => [...prev, { id: crypto.randomUUID(), role: "tool", toolUI: initialISSProgress() }]);
-        } else if (evt.status === "step") {
-          const msg = (evt.message ?? "").toLowerCase();
-          upsertProgressFor(
-            "getISS",
-            initialISSProgress,
-            (prev) => {
-              const base = prev && prev.kind === "progress" ? prev : initialISSProgress();
-              if (msg.includes("fetch"))  return markSequence(base, "fetch", ["plan"]);
-              if (msg.includes("final"))  return markSequence(base, "final", ["plan", "fetch"]);
-              return base;
-            },
-            setMessages
-          );
-        } else if (evt.status === "done") {
-          upsertProgressFor("getISS", initialISSProgress, (prev) => finalizeProgress(prev), setMessages);
-          if (evt.result && isIssResult(evt.result)) {
-            setMessages((prev) => [...prev, { id: crypto.randomUUID(), role: "tool", iss: evt.result } as ChatMessage]);
-          }
-        } else if (evt.status === "error") {
-          upsertProgressFor("getISS", initialISSProgress, (prev) => errorProgress(prev, evt.message), setMessages);
-        }
+    // Tool events - progress card per call, then its result widget
+    client.onTool = (evt, requestId) => {
+      if (!follow(requestId)) return;
+      const init = () => initialProgress(manifestFor(evt.tool), evt.callId);
+
+      if (evt.status === "started") {
+        setPending(true); // the preamble's `done` cleared it; keep Stop available while tools run
+        setMessages((prev) => [...prev, { id: crypto.randomUUID(), role: "tool", toolUI: init() }]);
+      } else if (evt.status === "step") {
+        const note = evt.cached ? "cached" : evt.retry ? `retry ${evt.retry}` : undefined;
+        upsertProgressFor(evt.callId, init, (prev) => advanceProgress(prev, evt.step, note), setMessages);
+      } else if (evt.status === "done") {
+        upsertProgressFor(evt.callId, init, (prev) => finalizeProgress(prev), setMessages);
+        // The result envelope was checked with the frame
+        insertAfterProgress(
+          evt.callId,
+          { id: crypto.randomUUID(), role: "tool", tool: evt.tool, result: evt.result } as ChatMessage,
+          setMessages
+        );
+      } else if (evt.status === "error") {
+        upsertProgressFor(evt.callId, init, (prev) => errorProgress(prev, evt.message), setMessages);
       }
     };
 
@@ -516,115 +558,245 @@ export default function App() {
   }, [messages, pending]);
 
   // actions
-  function send(text: string) {
-    setMessages((m) => [...m, { id: crypto.randomUUID(), role: "user", content: text }]);
+  /** Marks a new turn as the one on screen and returns its request id */
+  function startTurn() {
+    const id = crypto.randomUUID();
+    requestRef.current = id;
     setPending(true);
-    clientRef.current?.chat(text);
+    return id;
+  }
+  function send(text: string) {
+    const id = startTurn();
+    setMessages((m) => [...m, { id, role: "user", content: text }]);
+    clientRef.current?.chat(text, id);
+  }
+  function runTool(tool: string, args: Record<string, unknown>, text: string) {
+    const id = startTurn();
+    setMessages((m) => [...m, { id, role: "user", content: text }]);
+    clientRef.current?.runTool(tool, args, text, id);
+  }
+  function saveEdit(serverId: number, text: string) {
+    setEditingId(null);
+    clientRef.current?.edit(serverId, text, startTurn());
+  }
+  function regenerate(serverId: number, fresh = false) {
+    clientRef.current?.regenerate(serverId, fresh, startTurn());
+  }
+  function switchBranch(serverId: number) {
+    clientRef.current?.switchBranch(serverId);
+  }
+  function chooseModel(id: string) {
+    setNotice(null);
+    clientRef.current?.setModel(id);
+  }
+  function stop() {
+    clientRef.current?.stop();
   }
   function resetChat() {
     clientRef.current?.reset?.();
     setMessages([]);
   }
+  function newThread() {
+    clientRef.current?.createThread();
+    setSidebarOpen(false);
+  }
+  function openThread(id: string) {
+    if (id !== activeThread) clientRef.current?.switchThread(id);
+    setSidebarOpen(false);
+  }
+  function renameThread(id: string, title: string) {
+    clientRef.current?.renameThread(id, title);
+  }
+  function deleteThread(id: string) {
+    clientRef.current?.deleteThread(id);
+  }
 
   const canReset = useMemo(() => messages.length > 0, [messages]);
 
+  // Regenerate is offered on the latest reply: the last assistant message after the last user message
+  const regenTarget = useMemo(() => {
+    const lastIdx = (role: ChatMessage["role"]) => messages.map((m) => m.role).lastIndexOf(role);
+    const lastUser = lastIdx("user");
+    const lastAssistant = lastIdx("assistant");
+    const user = messages[lastUser];
+    if (lastAssistant < lastUser || user?.role !== "user" || user.serverId === undefined) return null;
+    const usedTools = messages.slice(lastUser + 1).some((m) => m.role === "tool");
+    return { messageId: messages[lastAssistant].id, serverId: user.serverId, usedTools };
+  }, [messages]);
+
   // render
   return (
     <div className="bg-app text-neutral-900 dark:text-neutral-50 min-h-svh transition-colors duration-300">
       <div className="mx-auto grid min-h-svh w-full place-items-center p-4">
-        <div className="w-full max-w-3xl">
-          <header className="mb-3 flex items-center justify-between gap-3">
-            <a href="/" className="flex items-center gap-2 text-lg font-semibold">
-              <img
-                src={theme === "dark" ? "/logo-dark-theme.png" : "/logo-light-theme.png"}
-                alt="Logo"
-                className="h-6 w-6 rounded-lg"
-                loading="eager"
-                decoding="async"
-              />
-              <span>Chat Agent</span>
-            </a>
-            <div className="flex items-center gap-3">
-              <button
-                className="btn"
-                aria-label="toggle theme"
-                onClick={() => setTheme(theme === "dark" ? "light" : "dark")}
-                title="Toggle theme"
-              >
-                {theme === "dark" ? "☀️" : "🌙"}
-              </button>
-              <button className="btn" onClick={resetChat} disabled={!canReset} title="Reset chat">
-                Reset
-              </button>
-            </div>
-          </header>
-
-          <section className="rounded-2xl border border-neutral-200 bg-white/80 p-3 dark:border-neutral-800 dark:bg-neutral-900/60 h-[min(84svh,900px)]">
-            <div className="flex h-full flex-col">
-              <div ref={scrollRef} className="flex-1 overflow-y-auto px-1 py-2">
-                {messages.length === 0 ? (
-                  <div className="grid h-full place-items-center">
-                    <div className="max-w-xl text-center leading-relaxed">
-                      <h2 className="mt-10 mb-1 text-2xl font-semibold">Cloudflare Chat Agent Starter</h2>
-                      <p className="mb-10 text-neutral-600 dark:text-neutral-300">
-                        Minimal chat UI powered by <strong>Agents SDK</strong> + <strong>Workers AI</strong> with streaming and persistence.
-                      </p>
-                      <p className="mt-10 text-sm text-neutral-500 dark:text-neutral-400">Start typing below to get started!</p>
+        <div className="flex w-full max-w-5xl gap-4">
+          <ThreadSidebar
+            threads={threads}
+            activeId={activeThread}
+            open={sidebarOpen}
+            onClose={() => setSidebarOpen(false)}
+            onNew={newThread}
+            onSelect={openThread}
+            onRename={renameThread}
+            onDelete={deleteThread}
+          >
+            <McpServers
+              servers={mcpServers}
+              onAdd={(name, url) => clientRef.current?.addMcp(name, url)}
+              onRemove={(id) => clientRef.current?.removeMcp(id)}
+            />
+          </ThreadSidebar>
+          <div className="w-full max-w-3xl flex-1">
+            <header className="mb-3 flex items-center justify-between gap-3">
+              <div className="flex items-center gap-2">
+                <button
+                  className="btn md:hidden"
+                  aria-label="show chats"
+                  onClick={() => setSidebarOpen(true)}
+                  title="Chats"
+                >
+                  ☰
+                </button>
+                <a href="/" className="flex items-center gap-2 text-lg font-semibold">
+                  <img
+                    src={theme === "dark" ? "/logo-dark-theme.png" : "/logo-light-theme.png"}
+                    alt="Logo"
+                    className="h-6 w-6 rounded-lg"
+                    loading="eager"
+                    decoding="async"
+                  />
+                  <span>Chat Agent</span>
+                </a>
+              </div>
+              <div className="flex items-center gap-3">
+                {models.length > 0 && (
+                  <select
+                    className="btn max-w-44"
+                    aria-label="model"
+                    title="Model"
+                    value={model}
+                    onChange={(e) => chooseModel(e.target.value)}
+                    disabled={pending}
+                  >
+                    {models.map((m) => (
+                      <option key={m.id} value={m.id}>
+                        {m.name}{m.functionCalling ? "" : " (no tools)"}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                <button
+                  className="btn"
+                  aria-label="toggle theme"
+                  onClick={() => setTheme(theme === "dark" ? "light" : "dark")}
+                  title="Toggle theme"
+                >
+                  {theme === "dark" ? "☀️" : "🌙"}
+                </button>
+                <button className="btn" onClick={resetChat} disabled={!canReset} title="Reset chat">
+                  Reset
+                </button>
+              </div>
+            </header>
+
+            <section className="rounded-2xl border border-neutral-200 bg-white/80 p-3 dark:border-neutral-800 dark:bg-neutral-900/60 h-[min(84svh,900px)]">
+              <div className="flex h-full flex-col">
+                <div ref={scrollRef} className="flex-1 overflow-y-auto px-1 py-2">
+                  {messages.length === 0 ? (
+                    <div className="grid h-full place-items-center">
+                      <div className="max-w-xl text-center leading-relaxed">
+                        <h2 className="mt-10 mb-1 text-2xl font-semibold">Cloudflare Chat Agent Starter</h2>
+                        <p className="mb-10 text-neutral-600 dark:text-neutral-300">
+                          Minimal chat UI powered by <strong>Agents SDK</strong> + <strong>Workers AI</strong> with streaming and persistence.
+                        </p>
+                        <p className="mt-10 text-sm text-neutral-500 dark:text-neutral-400">Start typing below to get started!</p>
+                      </div>
                     </div>
-                  </div>
-                ) : (
-                  <div className="flex flex-col gap-3">
-                    {messages.map((m) => {
-                      if (m.role === "tool") {
-                        // Widgets first
-                        if ("weather" in m) {
-                          return (
-                            <div key={m.id} className="px-1">
-                              <WeatherWidget result={m.weather} />
-                            </div>
-                          );
-                        }
-                        if ("wiki" in m) {
+                  ) : (
+                    <div className="flex flex-col gap-3">
+                      {messages.map((m) => {
+                        if (m.role === "tool") {
+                          // Widgets first
+                          if ("result" in m) {
+                            return (
+                              <div key={m.id} className="px-1">
+                                <ToolResultView payload={m} onRunTool={pending ? undefined : runTool} />
+                              </div>
+                            );
+                          }
+                          // Otherwise progress/generic card
                           return (
                             <div key={m.id} className="px-1">
-                              <WikiWidget result={m.wiki} />
+                              <ToolCard ui={(m as Extract<ChatMessage, { toolUI: ToolUI }>).toolUI} />
                             </div>
                           );
                         }
-                        if ("iss" in m) {
+                        if (m.id === editingId && m.serverId !== undefined) {
+                          const serverId = m.serverId;
                           return (
                             <div key={m.id} className="px-1">
-                              <ISSWidget result={m.iss} />
+                              <EditBox initial={m.content} onSave={(t) => saveEdit(serverId, t)} onCancel={() => setEditingId(null)} />
                             </div>
                           );
                         }
-                        // Otherwise progress/generic card
+                        const canEdit = m.role === "user" && m.serverId !== undefined && !pending;
+                        const canRegen = m.role === "assistant" && regenTarget?.messageId === m.id && !pending;
                         return (
                           <div key={m.id} className="px-1">
-                            <ToolCard ui={(m as Extract<ChatMessage, { toolUI: ToolUI }>).toolUI} />
+                            <MessageBubble role={m.role}>{m.content}</MessageBubble>
+                            <MessageActions
+                              align={m.role === "user" ? "end" : "start"}
+                              serverId={m.serverId}
+                              siblings={pending ? undefined : m.siblings}
+                              onBranch={switchBranch}
+                              onEdit={canEdit ? () => setEditingId(m.id) : undefined}
+                              onRegenerate={canRegen ? () => regenerate(regenTarget.serverId) : undefined}
+                              onRefresh={canRegen && regenTarget.usedTools ? () => regenerate(regenTarget.serverId, true) : undefined}
+                            />
                           </div>
                         );
-                      }
-                      return (
-                        <div key={m.id} className="px-1">
-                          <MessageBubble role={m.role}>{m.content}</MessageBubble>
-                        </div>
-                      );
-                    })}
-                    {(() => {
-                      const last = messages[messages.length - 1];
-                      const showPending = pending && (!last || last.role !== "assistant");
-                      return showPending ? <MessageBubble role="assistant" pending /> : null;
-                    })()}
+                      })}
+                      {(() => {
+                        const last = messages[messages.length - 1];
+                        const showPending = pending && (!last || last.role !== "assistant");
+                        return showPending ? <MessageBubble role="assistant" pending /> : null;
+                      })()}
+                    </div>
+                  )}
+                </div>
+
+                {status === "reconnecting" && (
+                  <div className="mt-2 rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-sm text-amber-800 dark:border-amber-900 dark:bg-amber-950/40 dark:text-amber-300">
+                    Reconnecting… messages you send now go out once the connection is back.
                   </div>
                 )}
+                {status === "expired" && (
+                  <div className="mt-2 flex items-center justify-between gap-2 rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-sm text-amber-800 dark:border-amber-900 dark:bg-amber-950/40 dark:text-amber-300">
+                    <span>This session has expired and its conversations can't be reopened.</span>
+                    <button className="underline" onClick={() => clientRef.current?.startNewSession()}>
+                      Start fresh
+                    </button>
+                  </div>
+                )}
+                {status === "sign-in" && (
+                  <div className="mt-2 flex items-center justify-between gap-2 rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-sm text-amber-800 dark:border-amber-900 dark:bg-amber-950/40 dark:text-amber-300">
+                    <span>Sign in to chat.</span>
+                    <button className="underline" onClick={() => clientRef.current?.connect().catch(() => {})}>
+                      Try again
+                    </button>
+                  </div>
+                )}
+                {notice && (
+                  <div className="mt-2 flex items-center justify-between gap-2 rounded-md border border-red-300 bg-red-50 px-3 py-2 text-sm text-red-700 dark:border-red-900 dark:bg-red-950/40 dark:text-red-300">
+                    <span>{notice}</span>
+                    <button onClick={() => setNotice(null)} aria-label="dismiss">✕</button>
+                  </div>
+                )}
+                <div className="mt-2">
+                  <ChatInput onSend={send} onStop={stop} disabled={pending} pending={pending} />
+                </div>
               </div>
-
-              <div className="mt-2">
-                <ChatInput onSend={send} disabled={pending} />
-              </div>
-            </div>
-          </section>
+            </section>
+          </div>
         </div>
       </div>
     </div>
@@ -1,98 +1,355 @@
 // src/agent/wsClient.ts
+import { TURN_FRAMES, encodeFrame, parseServerFrame, type ClientFrame } from "../../worker/protocol";
 
-export type AgentState = {
-  model: string;
-  messages: { role: "user" | "assistant"; content: string; ts: number }[];
+// Frame shapes and validators are shared with the agent (worker/protocol.ts)
+export type AgentState = import("../../worker/protocol").SessionState;
+export type ThreadInfo = import("../../worker/protocol").ThreadInfo;
+export type ErrorCode  = import("../../worker/protocol").ErrorCode;
+
+// Type-only imports from the tool registry (erased at build time)
+/** Compiled-in and MCP tool names */
+export type ToolName     = import("../../worker/tools").AnyToolName;
+export type ToolEvent    = import("../../worker/tools").ToolEvent;
+export type ToolManifest = import("../../worker/tools").ToolManifest;
+export type ModelSummary = import("../../worker/models").ModelSummary;
+export type McpServerInfo = import("../../worker/mcp").McpServerInfo;
+export type ApiSpecInfo   = import("../../worker/openapi").ApiSpecInfo;
+
+/**
+ * "open" once the server's `ready` arrived; "reconnecting" after a drop, until it's back.
+ * "expired": the stored session can't be renewed any more (`startNewSession()` opens a new,
+ * empty one). "sign-in": the server wants an identity token (`connect()` tries again).
+ * Neither is retried on its own.
+ */
+export type ConnectionStatus = "connecting" | "open" | "reconnecting" | "expired" | "sign-in";
+
+export type AgentClientOptions = {
+  /** Identity token (JWT) from the embedding app, for deployments with an identity provider */
+  identityToken?: () => Promise<string | null>;
 };
 
-// Type-only imports for tool results (erased at build time)
-export type WeatherResult = import("../../worker/tools/getWeather").WeatherResult;
-export type WikiResult    = import("../../worker/tools/getWiki").WikiResult;
-
-/** Tool event shape (weather, wiki, iss) */
-export type ToolEvent =
-  // Weather
-  | { type: "tool"; tool: "getWeather"; status: "started"; message?: string }
-  | { type: "tool"; tool: "getWeather"; status: "step";    message?: string }
-  | { type: "tool"; tool: "getWeather"; status: "done";    message?: string; result: unknown }
-  | { type: "tool"; tool: "getWeather"; status: "error";   message: string }
-  // Wikipedia
-  | { type: "tool"; tool: "getWiki";    status: "started"; message?: string }
-  | { type: "tool"; tool: "getWiki";    status: "step";    message?: string }
-  | { type: "tool"; tool: "getWiki";    status: "done";    message?: string; result: unknown }
-  | { type: "tool"; tool: "getWiki";    status: "error";   message: string }
-  // ISS tracker
-  | { type: "tool"; tool: "getISS";     status: "started"; message?: string }
-  | { type: "tool"; tool: "getISS";     status: "step";    message?: string }
-  | { type: "tool"; tool: "getISS";     status: "done";    message?: string; result: unknown }
-  | { type: "tool"; tool: "getISS";     status: "error";   message: string };
+const RECONNECT_BASE_MS = 500;
+const RECONNECT_MAX_MS = 30_000;
+const MAX_QUEUED_FRAMES = 100;
+const SESSION_KEY = "session";
+// Tokens last 30 days; renewing a week ahead keeps an open tab from holding an expired one
+const RENEW_BEFORE_MS = 7 * 86_400_000;
+
+/** What `POST /api/session` hands out; kept in localStorage */
+type StoredSession = { sessionId: string; token: string; expiresAt: number };
+
+// No session without the user: theirs expired, or they have to sign in
+class SessionError extends Error {
+  readonly status: "expired" | "sign-in";
+
+  constructor(status: "expired" | "sign-in") {
+    super(status === "expired" ? "The session can't be renewed" : "Sign-in required");
+    this.name = "SessionError";
+    this.status = status;
+  }
+}
 
 export class AgentClient {
   private ws: WebSocket | null = null;
+  #ready = false;
+  #attempt = 0;
+  #retryTimer: ReturnType<typeof setTimeout> | null = null;
+  // Frames sent while the socket is down; flushed after the next `ready`
+  #queue: { frame: ClientFrame; requestId?: string }[] = [];
+  // Latest turn sent or seen, and the last frame of it that arrived (for `resume`)
+  #turn: { requestId: string; seq: number } | null = null;
+  // Set when a socket closes before opening (maybe a rejected token); the next connect re-checks it
+  #renewSession = false;
+  #identityToken: AgentClientOptions["identityToken"];
+
+  constructor(options: AgentClientOptions = {}) {
+    this.#identityToken = options.identityToken;
+  }
 
-  onReady:    (s: AgentState) => void = () => {};
-  onDelta:    (t: string) => void     = () => {};
-  onDone:     () => void              = () => {};
+  // Turn frames carry the `requestId` of the chat/edit/regenerate/runTool call that started the turn
+  onReady:    (s: AgentState, tools: ToolManifest[]) => void = () => {};
+  onDelta:    (t: string, requestId?: string) => void = () => {};
+  onDone:     (requestId?: string) => void = () => {};
+  /** Turn was stopped by the user (partial text, if any, already arrived as a delta) */
+  onStopped:  (requestId?: string) => void = () => {};
   onCleared:  () => void              = () => {};
   /** For progress/results cards */
-  onTool:     (evt: ToolEvent) => void = () => {};
+  onTool:     (evt: ToolEvent, requestId?: string) => void = () => {};
+  /** Thread list changed (created, renamed, deleted, retitled) */
+  onThreads:  (threads: ThreadInfo[], activeId: string) => void = () => {};
+  /** Active thread changed - replace the transcript with `s.messages` */
+  onThread:   (s: AgentState) => void = () => {};
+  /** Same thread, rewound or resynced (edit/regenerate) - replace the transcript */
+  onHistory:  (s: AgentState, requestId?: string) => void = () => {};
+  /** User message that started a turn, ours or another connection's, with its server id */
+  onSaved:    (id: number, text: string, requestId?: string) => void = () => {};
+  /** Model catalog, plus the session's current model */
+  onModels:   (models: ModelSummary[], current: string) => void = () => {};
+  /** MCP servers connected to this session (sent on `listMcp()` and whenever one changes) */
+  onMcp:      (servers: McpServerInfo[]) => void = () => {};
+  /** OpenAPI documents registered on this session */
+  onApis:     (apis: ApiSpecInfo[]) => void = () => {};
+  /** Tool manifest changed (MCP tools discovered or removed) */
+  onTools:    (tools: ToolManifest[]) => void = () => {};
+  /** Request rejected (e.g. `unknown_model`) */
+  onError:    (code: ErrorCode, message: string, requestId?: string) => void = () => {};
+  /** Connection went down or came back; frames sent meanwhile are queued */
+  onStatus:   (status: ConnectionStatus) => void = () => {};
+  /**
+   * After a reconnect, for the last turn: its missed frames were replayed (or, if the
+   * server no longer had them, a `history` frame resynced the transcript) and `running`
+   * says whether more are coming
+   */
+  onResumed:  (requestId: string, running: boolean) => void = () => {};
 
   isOpen()       { return this.ws?.readyState === WebSocket.OPEN; }
   isConnecting() { return this.ws?.readyState === WebSocket.CONNECTING; }
 
+  /** Opens the socket; resolves once it's open. Drops are retried with backoff from then on. */
   async connect(): Promise<void> {
-    const sid = this.#getOrCreateSid();
+    if (this.#retryTimer) clearTimeout(this.#retryTimer);
+    this.#retryTimer = null;
+
+    this.onStatus(this.#attempt ? "reconnecting" : "connecting");
+    let session: StoredSession;
+    try {
+      session = await this.#session();
+    } catch (e) {
+      // Waits for the user; anything else (offline, 5xx) is retried like a dropped connection
+      if (e instanceof SessionError) this.onStatus(e.status);
+      else this.#scheduleReconnect();
+      throw e;
+    }
     const proto = location.protocol === "https:" ? "wss" : "ws";
-    const url = `${proto}://${location.host}/agents/ai-agent/${sid}`;
+    const url = `${proto}://${location.host}/agents/ai-agent/${session.sessionId}`;
 
-    console.log("[ws] connecting", { url, sessionId: sid });
-    this.ws = new WebSocket(url);
+    console.log("[ws] connecting", { url, sessionId: session.sessionId, attempt: this.#attempt });
+    // Browsers can't set headers on a WebSocket, so the token rides in the query
+    const ws = new WebSocket(`${url}?token=${encodeURIComponent(session.token)}`);
+    this.ws = ws;
+    let opened = false;
+
+    ws.onmessage = (ev) => this.#receive(ev.data);
+    ws.onclose = (ev) => {
+      console.log("[ws] close", ev.code, ev.reason || "");
+      if (!opened) this.#renewSession = true;
+      if (this.ws !== ws) return;
+      this.ws = null;
+      this.#ready = false;
+      this.#scheduleReconnect();
+    };
 
     await new Promise<void>((resolve, reject) => {
-      if (!this.ws) return reject(new Error("no ws"));
-      this.ws.onopen = () => resolve();
-      this.ws.onerror = (e: Event) => {
+      ws.onopen = () => {
+        opened = true;
+        resolve();
+      };
+      ws.onerror = (e: Event) => {
+        // `close` follows and schedules the retry
         console.error("[ws] error", e);
         reject(new Error("WebSocket error"));
       };
     });
+  }
 
-    this.ws.onmessage = (ev) => {
-      try {
-        const msg = JSON.parse(ev.data);
-
-        if (msg?.type === "ready")   { this.onReady(msg.state as AgentState); return; }
-        if (msg?.type === "delta")   { this.onDelta(String(msg.text ?? ""));  return; }
-        if (msg?.type === "done")    { this.onDone();                          return; }
-        if (msg?.type === "cleared") { this.onCleared();                       return; }
-        if (msg?.type === "tool")    { this.onTool(msg as ToolEvent);          return; }
-      } catch {
-        // ignore malformed frames
-      }
+  #scheduleReconnect() {
+    this.onStatus("reconnecting");
+    // Exponential backoff with jitter; coming back online skips the wait
+    const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** this.#attempt) * (0.8 + Math.random() * 0.4);
+    this.#attempt++;
+    const retry = () => {
+      window.removeEventListener("online", retry);
+      this.connect().catch(() => {});
     };
+    this.#retryTimer = setTimeout(retry, delay);
+    window.addEventListener("online", retry);
+  }
 
-    this.ws.onclose = (ev) => {
-      console.log("[ws] close", ev.code, ev.reason || "");
-    };
-    this.ws.onerror = (ev) => {
-      console.log("[ws] error", ev);
-    };
+  #receive(data: unknown) {
+    const parsed = parseServerFrame(data);
+    if (!parsed) return; // the SDK's own frames
+    if (!parsed.ok) {
+      console.log("[ws] frame rejected", parsed.code, parsed.message);
+      return;
+    }
+    const { frame: msg, requestId, seq } = parsed;
+
+    if (requestId && seq) {
+      // Within a turn frames must arrive in order. After a reconnect, live frames can
+      // come before the replay of the ones missed; they're skipped and replayed in turn.
+      if (this.#turn?.requestId === requestId && seq !== this.#turn.seq + 1) return;
+      this.#turn = { requestId, seq };
+    }
+
+    switch (msg.type) {
+      case "ready":
+        this.#onServerReady();
+        this.onReady(msg.state, msg.tools);
+        this.#catchUp();
+        break;
+      case "delta":   this.onDelta(msg.text, requestId); break;
+      case "done":    this.onDone(requestId); break;
+      case "stopped": this.onStopped(requestId); break;
+      case "cleared": this.onCleared(); break;
+      case "tool":    this.onTool(msg, requestId); break;
+      case "threads": this.onThreads(msg.threads, msg.activeId); break;
+      case "thread":  this.onThread(msg.state); break;
+      case "history": this.onHistory(msg.state, requestId); break;
+      case "models":  this.onModels(msg.models, msg.current); break;
+      case "mcp":     this.onMcp(msg.servers); break;
+      case "openapi": this.onApis(msg.apis); break;
+      case "tools":   this.onTools(msg.tools); break;
+      case "error":   this.onError(msg.code, msg.message, requestId); break;
+      case "saved":   this.onSaved(msg.id, msg.text, requestId); break;
+      case "resumed": if (requestId) this.onResumed(requestId, msg.running); break;
+    }
+  }
+
+  #onServerReady() {
+    this.#ready = true;
+    this.#attempt = 0;
+    this.onStatus("open");
   }
 
-  chat(text: string) {
-    this.ws?.send(JSON.stringify({ type: "chat", text }));
+  // After `ready` (and the app's handler for it): pick up the last turn, then send what was queued
+  #catchUp() {
+    if (this.#turn) {
+      this.#write({ type: "resume", requestId: this.#turn.requestId, lastSeq: this.#turn.seq });
+    }
+    const queued = this.#queue.splice(0);
+    for (const { frame, requestId } of queued) this.#write(frame, requestId);
+  }
+
+  // `requestId` tags the turn's frames so the caller can tell them from a turn it has abandoned
+  chat(text: string, requestId?: string) {
+    this.#send({ type: "chat", text }, requestId);
+  }
+  /** Run one tool with exact args (e.g. a picked place), saving `text` as the user's message */
+  runTool(tool: string, args: Record<string, unknown>, text: string, requestId?: string) {
+    this.#send({ type: "tool.run", tool, args, text }, requestId);
+  }
+  /** Replace a user message (kept as a branch) and re-run the reply */
+  edit(messageId: number, text: string, requestId?: string) {
+    this.#send({ type: "edit", messageId, text }, requestId);
+  }
+  /** New reply to the user message at or before `messageId`; `fresh` refetches tool data instead of using the cache */
+  regenerate(messageId: number, fresh = false, requestId?: string) {
+    this.#send({ type: "regenerate", messageId, fresh }, requestId);
+  }
+  /** Show another alternative of a message */
+  switchBranch(messageId: number) {
+    this.#send({ type: "branch", messageId });
+  }
+  stop() {
+    this.#send({ type: "stop" });
   }
   reset() {
-    this.ws?.send(JSON.stringify({ type: "reset" }));
+    this.#send({ type: "reset" });
   }
   setModel(model: string) {
-    this.ws?.send(JSON.stringify({ type: "model", model }));
+    this.#send({ type: "model", model });
+  }
+  listModels() {
+    this.#send({ type: "models" });
+  }
+
+  createThread(title?: string) {
+    this.#send({ type: "thread.create", title });
+  }
+  listThreads() {
+    this.#send({ type: "thread.list" });
+  }
+  switchThread(threadId: string) {
+    this.#send({ type: "thread.switch", threadId });
+  }
+  renameThread(threadId: string, title: string) {
+    this.#send({ type: "thread.rename", threadId, title });
+  }
+  deleteThread(threadId: string) {
+    this.#send({ type: "thread.delete", threadId });
+  }
+
+  listMcp() {
+    this.#send({ type: "mcp.list" });
+  }
+  /** Connect an MCP server for this session; its tools are namespaced by `name` */
+  addMcp(name: string, url: string, headers?: Record<string, string>) {
+    this.#send({ type: "mcp.add", name, url, headers });
   }
+  removeMcp(serverId: string) {
+    this.#send({ type: "mcp.remove", serverId });
+  }
+
+  listApis() {
+    this.#send({ type: "openapi.list" });
+  }
+  /** Admin: register an OpenAPI document; `operations` picks which become tools */
+  addApi(
+    name: string,
+    spec: { document: string | object; baseUrl?: string; operations?: string[]; headers?: Record<string, string> },
+    adminToken: string
+  ) {
+    this.#send({ type: "openapi.add", name, ...spec, adminToken });
+  }
+  removeApi(name: string, adminToken: string) {
+    this.#send({ type: "openapi.remove", name, adminToken });
+  }
+
+  #send(frame: ClientFrame, requestId?: string) {
+    if (this.#ready && this.ws?.readyState === WebSocket.OPEN) {
+      this.#write(frame, requestId);
+      return;
+    }
+    if (this.#queue.length >= MAX_QUEUED_FRAMES) {
+      console.log("[ws] offline queue full, dropping", frame.type);
+      return;
+    }
+    this.#queue.push({ frame, requestId });
+  }
+
+  #write(frame: ClientFrame, requestId?: string) {
+    this.ws?.send(encodeFrame(frame, { requestId }));
+    // A turn we start is the one to resume, even before any of its frames arrive
+    if (requestId && TURN_FRAMES.includes(frame.type)) this.#turn = { requestId, seq: 0 };
+  }
+
+  /** Drops the stored (expired) session and connects with a new, empty one */
+  startNewSession() {
+    localStorage.removeItem(SESSION_KEY);
+    this.#renewSession = false;
+    this.#attempt = 0;
+    this.connect().catch(() => {});
+  }
+
+  // Stored session and token, renewed when close to expiry. A token the server no longer
+  // accepts is only replaced by signing in again (same user, same session); otherwise the
+  // user decides whether to start over, so a conversation never vanishes on its own.
+  async #session(): Promise<StoredSession> {
+    let stored: StoredSession | null = null;
+    try {
+      stored = JSON.parse(localStorage.getItem(SESSION_KEY) ?? "null") as StoredSession | null;
+    } catch {
+      stored = null;
+    }
+    if (stored?.token && !this.#renewSession && stored.expiresAt - Date.now() > RENEW_BEFORE_MS) return stored;
+
+    const issue = (token?: string) =>
+      fetch("/api/session", { method: "POST", headers: token ? { Authorization: `Bearer ${token}` } : {} });
+    const identity = async () => ((await this.#identityToken?.()) ?? undefined);
+    let res = await issue(stored?.token ?? (await identity()));
+    if (res.status === 401 && stored?.token) {
+      const token = await identity();
+      if (token) res = await issue(token);
+      if (res.status === 401) throw new SessionError("expired");
+    }
+    if (res.status === 401) throw new SessionError("sign-in");
+    if (!res.ok) throw new Error(`Session request failed: ${res.status}`);
 
-  #getOrCreateSid(): string {
-    const k = "sessionId";
-    let sid = localStorage.getItem(k);
-    if (!sid) { sid = crypto.randomUUID(); localStorage.setItem(k, sid); }
-    return sid;
+    const session = (await res.json()) as StoredSession;
+    localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+    // Session id from before tokens; the server won't accept it without one
+    localStorage.removeItem("sessionId");
+    this.#renewSession = false;
+    return session;
   }
 }
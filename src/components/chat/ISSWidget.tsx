@@ -1,12 +1,14 @@
 // src/components/chat/ISSWidget.tsx
 import { useEffect, useMemo } from "react";
-import { MapContainer, TileLayer, Marker, Polyline, useMap } from "react-leaflet";
+import { MapContainer, TileLayer, Marker, Polyline, CircleMarker, useMap } from "react-leaflet";
 import type { LatLngExpression } from "leaflet";
 import { Icon } from "leaflet";
 import "leaflet/dist/leaflet.css";
 
 // Reuse the worker tool's type without importing the whole module surface
 export type IssResult = import("../../../worker/tools/getISS").IssResult;
+type IssPass = import("../../../worker/tools/getISS").IssPass;
+type TrackPoint = import("../../../worker/tools/getISS").TrackPoint;
 
 /* --------------------------- tiny type guards --------------------------- */
 function isRecord(v: unknown): v is Record<string, unknown> {
@@ -19,6 +21,63 @@ function fmt(n: number, digits = 2): string {
   return Number.isFinite(n) ? n.toFixed(digits) : "–";
 }
 
+/** Splits the track where it wraps around the antimeridian so Leaflet doesn't draw a line across the map */
+function trackSegments(points: TrackPoint[]): LatLngExpression[][] {
+  const segments: LatLngExpression[][] = [];
+  let current: LatLngExpression[] = [];
+  points.forEach((p, i) => {
+    if (i > 0 && Math.abs(p.lon - points[i - 1].lon) > 180) {
+      segments.push(current);
+      current = [];
+    }
+    current.push([p.lat, p.lon]);
+  });
+  if (current.length) segments.push(current);
+  return segments.filter((s) => s.length > 1);
+}
+
+function timeLabel(ms: number) {
+  return new Date(ms).toLocaleString(undefined, { weekday: "short", hour: "2-digit", minute: "2-digit" });
+}
+
+function PassTable({ passes, observer }: { passes: IssPass[]; observer?: string }) {
+  return (
+    <div className="mt-3">
+      <div className="mb-1 text-[11px] uppercase tracking-wide text-neutral-500 dark:text-neutral-400">
+        Passes{observer ? ` over ${observer}` : ""}
+      </div>
+      {passes.length === 0 ? (
+        <div className="text-xs text-neutral-600 dark:text-neutral-400">No passes above 10° in the coming days.</div>
+      ) : (
+        <table className="w-full text-left text-xs tabular-nums text-neutral-700 dark:text-neutral-300">
+          <thead className="text-[10px] text-neutral-500 dark:text-neutral-400">
+            <tr>
+              <th className="py-0.5 font-medium">Rise</th>
+              <th className="py-0.5 font-medium">Peak</th>
+              <th className="py-0.5 font-medium">Set</th>
+              <th className="py-0.5 font-medium">Max el.</th>
+              <th className="py-0.5 font-medium" />
+            </tr>
+          </thead>
+          <tbody>
+            {passes.map((p) => (
+              <tr key={p.rise} className={p.visible ? "font-semibold text-neutral-900 dark:text-neutral-100" : undefined}>
+                <td className="py-0.5">{timeLabel(p.rise)}</td>
+                <td className="py-0.5">{new Date(p.culminate).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" })}</td>
+                <td className="py-0.5">{new Date(p.set).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" })}</td>
+                <td className="py-0.5">{p.maxElevation}°</td>
+                <td className="py-0.5" title={p.visible ? "Sunlit station in a dark sky" : "Daylight or in Earth's shadow"}>
+                  {p.visible ? "👁 visible" : ""}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
 /* --------------------------- map helpers --------------------------- */
 function ViewUpdater({ center, zoom }: { center: LatLngExpression; zoom: number }) {
   const map = useMap();
@@ -66,11 +125,15 @@ export function ISSWidget({ result }: { result: IssResult }) {
     };
   }, [ok, result]);
 
-  // Trail polyline - for now just show current position
-  // (API doesn't provide historical positions)
-  const trail = useMemo<LatLngExpression[]>(() => {
-    return [[lat, lon]];
-  }, [lat, lon]);
+  // Ground track propagated by the worker, split at "now" into past and future
+  const { past, future } = useMemo(() => {
+    const track = result.ok ? result.track ?? [] : [];
+    const now = timestamp * 1000;
+    return {
+      past: trackSegments(track.filter((p) => p.t <= now)),
+      future: trackSegments(track.filter((p) => p.t >= now)),
+    };
+  }, [result, timestamp]);
 
   const center = useMemo<LatLngExpression>(() => [lat, lon], [lat, lon]);
 
@@ -78,7 +141,7 @@ export function ISSWidget({ result }: { result: IssResult }) {
   const subtitle = ok
     ? `${ts.toLocaleString()} • ${altitude_km !== undefined ? `~${fmt(altitude_km, 0)} km` : "alt –"} • ${
         velocity_kmh !== undefined ? `${fmt(velocity_kmh, 0)} km/h` : "speed –"
-      }`
+      }${result.ok && result.source === "tle" ? " • computed" : ""}`
     : `No data`;
 
   const title = "International Space Station (ISS)";
@@ -105,8 +168,16 @@ export function ISSWidget({ result }: { result: IssResult }) {
           <TileLayer url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png" />
           {ok && (
             <>
+              <Polyline positions={past} pathOptions={{ color: "#94a3b8", weight: 2, opacity: 0.8, dashArray: "4 4" }} />
+              <Polyline positions={future} pathOptions={{ color: "#60a5fa", weight: 2, opacity: 0.85 }} />
+              {result.observer && (
+                <CircleMarker
+                  center={[result.observer.lat, result.observer.lon]}
+                  radius={5}
+                  pathOptions={{ color: "#f59e0b", fillColor: "#fbbf24", fillOpacity: 0.9, weight: 2 }}
+                />
+              )}
               <Marker position={center} icon={issIcon} />
-              <Polyline positions={trail} pathOptions={{ color: "#60a5fa", weight: 2, opacity: 0.85 }} />
             </>
           )}
         </MapContainer>
@@ -124,6 +195,8 @@ export function ISSWidget({ result }: { result: IssResult }) {
           </div>
         </div>
       )}
+
+      {result.ok && result.passes && <PassTable passes={result.passes} observer={result.observer?.name} />}
     </div>
   );
 }
@@ -0,0 +1,41 @@
+// src/components/chat/JsonResultCard.tsx
+type ApiToolResult = import("../../../worker/openapi").ApiToolResult;
+
+/** Result of a user-defined HTTP tool (OpenAPI operation): status line + response body */
+export function JsonResultCard({ result }: { result: ApiToolResult }) {
+  if (!result.ok) {
+    return (
+      <div className="card-surface max-w-md p-4">
+        <div className="text-sm font-semibold text-neutral-900 dark:text-neutral-100">API call</div>
+        <div className="text-xs text-neutral-600 dark:text-neutral-400">Error: {result.error}</div>
+      </div>
+    );
+  }
+
+  const url = (() => {
+    try {
+      const u = new URL(result.url);
+      return `${u.host}${u.pathname}${u.search}`;
+    } catch {
+      return result.url;
+    }
+  })();
+  const body = typeof result.data === "string" ? result.data : JSON.stringify(result.data, null, 2);
+
+  return (
+    <div className="card-surface max-w-xl p-4">
+      <div className="mb-1 text-sm font-semibold text-neutral-900 dark:text-neutral-100">{result.operation}</div>
+      <div className="mb-3 truncate text-xs text-neutral-600 dark:text-neutral-400" title={result.url}>
+        <span className="font-mono">{result.method}</span> {url} • {result.status}
+        {result.truncated ? " • truncated" : ""}
+      </div>
+      {body ? (
+        <pre className="chat-scroll max-h-72 overflow-auto rounded-lg border border-neutral-200/60 bg-white/70 p-2 text-[11px] dark:border-neutral-800/60 dark:bg-neutral-950/40">
+          {body}
+        </pre>
+      ) : (
+        <div className="text-xs text-neutral-500 dark:text-neutral-400">Empty response.</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+// src/components/chat/McpResultCard.tsx
+type McpToolResult = import("../../../worker/mcp").McpToolResult;
+
+/** Result of a tool from an external MCP server: text, JSON and resource parts in order */
+export function McpResultCard({ result }: { result: McpToolResult }) {
+  if (!result.ok) {
+    return (
+      <div className="card-surface max-w-md p-4">
+        <div className="text-sm font-semibold text-neutral-900 dark:text-neutral-100">MCP tool</div>
+        <div className="text-xs text-neutral-600 dark:text-neutral-400">Error: {result.error}</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="card-surface max-w-xl p-4">
+      <div className="mb-1 text-sm font-semibold text-neutral-900 dark:text-neutral-100">{result.tool}</div>
+      <div className="mb-3 text-xs text-neutral-600 dark:text-neutral-400">via {result.server} (MCP)</div>
+
+      <div className="space-y-2 text-xs">
+        {result.content.length === 0 && <div className="text-neutral-500 dark:text-neutral-400">No content returned.</div>}
+        {result.content.map((c, i) => {
+          switch (c.type) {
+            case "text":
+              return (
+                <div key={i} className="whitespace-pre-wrap text-neutral-800 dark:text-neutral-200">
+                  {c.text}
+                </div>
+              );
+            case "json":
+              return (
+                <pre
+                  key={i}
+                  className="chat-scroll max-h-64 overflow-auto rounded-lg border border-neutral-200/60 bg-white/70 p-2 text-[11px] dark:border-neutral-800/60 dark:bg-neutral-950/40"
+                >
+                  {JSON.stringify(c.value, null, 2)}
+                </pre>
+              );
+            case "resource":
+              return (
+                <div key={i} className="rounded-lg border border-neutral-200/60 bg-white/70 p-2 dark:border-neutral-800/60 dark:bg-neutral-950/40">
+                  <div className="truncate font-mono text-[11px] text-neutral-500 dark:text-neutral-400">{c.uri}</div>
+                  {c.text && <div className="mt-1 whitespace-pre-wrap text-neutral-800 dark:text-neutral-200">{c.text}</div>}
+                </div>
+              );
+            default:
+              return (
+                <div key={i} className="text-neutral-500 dark:text-neutral-400">
+                  [{c.kind} content not shown]
+                </div>
+              );
+          }
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+// src/components/chat/McpServers.tsx
+import type { McpServerInfo } from "../../agent/wsClient";
+
+type Props = {
+  servers: McpServerInfo[];
+  onAdd: (name: string, url: string) => void;
+  onRemove: (id: string) => void;
+};
+
+function stateColor(state: string) {
+  if (state === "ready") return "bg-emerald-500";
+  if (state === "failed") return "bg-red-500";
+  if (state === "authenticating") return "bg-amber-500";
+  return "bg-neutral-400";
+}
+
+/** Sidebar section: MCP servers whose tools the agent can call */
+export function McpServers({ servers, onAdd, onRemove }: Props) {
+  const add = () => {
+    const url = window.prompt("MCP server URL (Streamable HTTP or SSE)")?.trim();
+    if (!url) return;
+    const suggested = (() => {
+      try {
+        return new URL(url).hostname.split(".")[0];
+      } catch {
+        return "";
+      }
+    })();
+    const name = window.prompt("Name (prefixes its tools)", suggested)?.trim();
+    if (name) onAdd(name, url);
+  };
+
+  return (
+    <div className="mt-3 border-t border-neutral-200/60 pt-3 dark:border-neutral-800/60">
+      <div className="mb-1.5 flex items-center justify-between text-xs font-medium text-neutral-600 dark:text-neutral-400">
+        <span>MCP servers</span>
+        <button className="hover:underline" onClick={add} title="Connect an MCP server">
+          + Add
+        </button>
+      </div>
+      {servers.length === 0 && <div className="text-[11px] text-neutral-500 dark:text-neutral-400">None connected</div>}
+      <ul className="space-y-1">
+        {servers.map((s) => (
+          <li key={s.id} className="group flex items-center gap-2 text-xs" title={`${s.url}\n${s.tools.join("\n")}`}>
+            <span className={`h-2 w-2 shrink-0 rounded-full ${stateColor(s.state)}`} aria-label={s.state} />
+            <span className="min-w-0 flex-1 truncate">
+              {s.name}
+              <span className="ml-1 text-neutral-500 dark:text-neutral-400">
+                {s.state === "ready" ? `${s.tools.length} tool${s.tools.length === 1 ? "" : "s"}` : s.state}
+              </span>
+            </span>
+            {s.authUrl && s.state === "authenticating" && (
+              <a className="text-sky-600 hover:underline dark:text-sky-400" href={s.authUrl} target="_blank" rel="noreferrer">
+                Authorize
+              </a>
+            )}
+            {s.scope === "session" ? (
+              <button
+                className="opacity-0 transition group-hover:opacity-70 hover:opacity-100"
+                onClick={() => onRemove(s.id)}
+                aria-label={`remove ${s.name}`}
+                title="Remove"
+              >
+                ✕
+              </button>
+            ) : (
+              <span className="text-[10px] text-neutral-400" title="Configured for this deployment">
+                built-in
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
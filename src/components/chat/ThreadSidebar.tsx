@@ -0,0 +1,95 @@
+// src/components/chat/ThreadSidebar.tsx
+import type { ReactNode } from "react";
+import type { ThreadInfo } from "../../agent/wsClient";
+
+type Props = {
+  threads: ThreadInfo[];
+  activeId: string;
+  /** Mobile drawer state; the list is always visible on md+ screens */
+  open: boolean;
+  onClose: () => void;
+  onNew: () => void;
+  onSelect: (id: string) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  /** Extra sections under the list (e.g. MCP servers) */
+  children?: ReactNode;
+};
+
+function ThreadRow({ thread, active, onSelect, onRename, onDelete }: {
+  thread: ThreadInfo;
+  active: boolean;
+  onSelect: () => void;
+  onRename: () => void;
+  onDelete: () => void;
+}) {
+  return (
+    <li
+      className={`group flex items-center gap-1 rounded-md px-2 py-1.5 text-sm ${
+        active
+          ? "bg-neutral-200/80 font-medium dark:bg-neutral-800/80"
+          : "hover:bg-neutral-100 dark:hover:bg-neutral-800/50"
+      }`}
+    >
+      <button className="min-w-0 flex-1 truncate text-left" onClick={onSelect} title={thread.title}>
+        {thread.title}
+      </button>
+      <button
+        className="opacity-0 transition group-hover:opacity-70 hover:opacity-100"
+        onClick={onRename}
+        aria-label="rename chat"
+        title="Rename"
+      >
+        ✎
+      </button>
+      <button
+        className="opacity-0 transition group-hover:opacity-70 hover:opacity-100"
+        onClick={onDelete}
+        aria-label="delete chat"
+        title="Delete"
+      >
+        ✕
+      </button>
+    </li>
+  );
+}
+
+export function ThreadSidebar(props: Props) {
+  const rename = (t: ThreadInfo) => {
+    const title = window.prompt("Rename chat", t.title)?.trim();
+    if (title && title !== t.title) props.onRename(t.id, title);
+  };
+  const remove = (t: ThreadInfo) => {
+    if (window.confirm(`Delete "${t.title}"? This can't be undone.`)) props.onDelete(t.id);
+  };
+
+  return (
+    <>
+      {/* Mobile backdrop */}
+      {props.open && <div className="fixed inset-0 z-10 bg-black/30 md:hidden" onClick={props.onClose} />}
+
+      <aside
+        className={`card-surface fixed inset-y-0 left-0 z-20 flex w-64 flex-col p-3 transition-transform md:static md:h-[min(84svh,900px)] md:translate-x-0 md:self-end ${
+          props.open ? "translate-x-0" : "-translate-x-full"
+        }`}
+      >
+        <button className="btn mb-3 w-full" onClick={props.onNew}>
+          + New chat
+        </button>
+        <ul className="chat-scroll flex-1 space-y-0.5 overflow-y-auto">
+          {props.threads.map((t) => (
+            <ThreadRow
+              key={t.id}
+              thread={t}
+              active={t.id === props.activeId}
+              onSelect={() => props.onSelect(t.id)}
+              onRename={() => rename(t)}
+              onDelete={() => remove(t)}
+            />
+          ))}
+        </ul>
+        {props.children}
+      </aside>
+    </>
+  );
+}
@@ -1,9 +1,13 @@
 // src/components/chat/ToolCard.tsx
 
+export type ToolName = import("../../../worker/tools").AnyToolName;
+
 /** Progress types */
 export type StepState = "idle" | "active" | "done" | "error";
 export type ToolProgress = {
-    tool: "getWeather" | "getWiki" | "getISS";
+    tool: ToolName;
+    /** Correlates live events to this card; absent on restored cards */
+    callId?: string;
     phase: "running" | "done" | "error";
     steps: Array<{ key: string; label: string; state: StepState; note?: string }>;
     error?: string;
@@ -1,6 +1,10 @@
 // src/components/chat/WeatherWidget.tsx
+import { useState } from "react";
 
 export type WeatherResult = import("../../../worker/tools/getWeather").WeatherResult;
+type WeatherOk = import("../../../worker/tools/getWeather").WeatherForecast;
+type WeatherAmbiguous = import("../../../worker/tools/getWeather").WeatherAmbiguous;
+export type GeoCandidate = import("../../../worker/tools/getWeather").GeoCandidate;
 
 function dayName(iso: string) {
   try {
@@ -10,14 +14,130 @@ function dayName(iso: string) {
   }
 }
 
-function pickIcon(pop: number | null | undefined) {
-  const p = typeof pop === "number" ? pop : -1;
-  if (p >= 60) return "🌧️";
-  if (p >= 30) return "⛅";
-  return "☀️";
+/** "2025-06-01T15:00" → "15:00" (times are already local to the place) */
+function hourLabel(iso: string) {
+  return iso.split("T")[1]?.slice(0, 5) ?? iso;
 }
 
-export function WeatherWidget({ result }: { result: WeatherResult }) {
+/** Icon for a WMO weather code; rain probability is the fallback for old results without codes */
+function iconFor(code: number | undefined, isDay = true, pop?: number) {
+  if (code === undefined) {
+    const p = typeof pop === "number" ? pop : -1;
+    if (p >= 60) return "🌧️";
+    if (p >= 30) return "⛅";
+    return "☀️";
+  }
+  if (code === 0) return isDay ? "☀️" : "🌙";
+  if (code <= 2) return isDay ? "🌤️" : "🌙";
+  if (code === 3) return "☁️";
+  if (code === 45 || code === 48) return "🌫️";
+  if (code >= 51 && code <= 57) return "🌦️";
+  if ((code >= 61 && code <= 67) || (code >= 80 && code <= 82)) return "🌧️";
+  if ((code >= 71 && code <= 77) || code === 85 || code === 86) return "🌨️";
+  if (code >= 95) return "⛈️";
+  return "🌡️";
+}
+
+function CurrentHeader({ result }: { result: WeatherOk }) {
+  const cur = result.current;
+  if (!cur) return null;
+  const T = result.units.temp;
+  const stat = (v: number, unit: string) => (Number.isFinite(v) ? `${Math.round(v)}${unit}` : "—");
+
+  return (
+    <div className="mb-3 flex items-center gap-3 rounded-xl border border-neutral-200/60 bg-white/70 px-3 py-2 dark:border-neutral-800/60 dark:bg-neutral-950/40">
+      <div className="text-3xl leading-none select-none">{iconFor(cur.code, cur.isDay)}</div>
+      <div className="min-w-0 flex-1">
+        <div className="flex items-baseline gap-2">
+          <span className="text-2xl font-semibold tabular-nums text-neutral-900 dark:text-neutral-100">{stat(cur.temp, T)}</span>
+          <span className="truncate text-sm text-neutral-700 dark:text-neutral-300">{cur.condition}</span>
+        </div>
+        <div className="text-xs text-neutral-500 dark:text-neutral-400">
+          Feels like {stat(cur.feelsLike, T)} • Wind {stat(cur.windSpeed, ` ${result.units.wind ?? "km/h"}`)} • Humidity {stat(cur.humidity, "%")}
+        </div>
+      </div>
+      <div className="self-start text-[10px] text-neutral-400">{hourLabel(cur.time)}</div>
+    </div>
+  );
+}
+
+function HourlyStrip({ result }: { result: WeatherOk }) {
+  const [open, setOpen] = useState(false);
+  const hours = result.hourly ?? [];
+  if (!hours.length) return null;
+
+  return (
+    <div className="mb-3">
+      <button
+        className="mb-2 text-xs font-medium text-neutral-700 hover:underline dark:text-neutral-300"
+        onClick={() => setOpen((o) => !o)}
+        aria-expanded={open}
+      >
+        {open ? "Hide hourly ▴" : `Hourly (next ${hours.length} h) ▾`}
+      </button>
+      {open && (
+        <div className="chat-scroll flex gap-2 overflow-x-auto pb-1">
+          {hours.map((hr) => (
+            <div
+              key={hr.time}
+              className="min-w-14 rounded-lg border border-neutral-200/60 bg-white/70 px-2 py-1.5 text-center text-[11px] dark:border-neutral-800/60 dark:bg-neutral-950/40"
+              title={`${hr.time.replace("T", " ")} • ${hr.condition}`}
+            >
+              <div className="text-neutral-500 dark:text-neutral-400">{hourLabel(hr.time)}</div>
+              <div className="text-base leading-tight select-none">{iconFor(hr.code)}</div>
+              <div className="tabular-nums text-neutral-800 dark:text-neutral-200">
+                {Math.round(hr.temp)}{result.units.temp}
+              </div>
+              {hr.pop > 0 && <div className="text-[10px] text-sky-600 dark:text-sky-400">{Math.round(hr.pop)}%</div>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function placeLabel(c: GeoCandidate) {
+  return [c.name, c.region, c.country].filter(Boolean).join(", ");
+}
+
+function PlaceChoices({ result, onChoose }: { result: WeatherAmbiguous; onChoose?: (c: GeoCandidate, label: string) => void }) {
+  return (
+    <div className="card-surface max-w-md p-4">
+      <div className="mb-1 text-sm font-semibold text-neutral-900 dark:text-neutral-100">Which “{result.query}”?</div>
+      <div className="mb-3 text-xs text-neutral-600 dark:text-neutral-400">Several places match - pick one for its forecast.</div>
+      <div className="flex flex-col gap-1.5">
+        {result.candidates.map((c) => {
+          const label = placeLabel(c);
+          return (
+            <button
+              key={`${c.lat},${c.lon}`}
+              className="flex items-baseline justify-between gap-3 rounded-lg border border-neutral-200/60 bg-white/70 px-3 py-1.5 text-left text-xs hover:bg-white disabled:cursor-default disabled:opacity-60 dark:border-neutral-800/60 dark:bg-neutral-950/40 dark:hover:bg-neutral-900"
+              onClick={() => onChoose?.(c, label)}
+              disabled={!onChoose}
+            >
+              <span className="truncate text-neutral-800 dark:text-neutral-200">{label}</span>
+              {c.population ? (
+                <span className="shrink-0 tabular-nums text-[10px] text-neutral-500 dark:text-neutral-400">
+                  pop. {c.population.toLocaleString()}
+                </span>
+              ) : null}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export function WeatherWidget({
+  result,
+  onChoose,
+}: {
+  result: WeatherResult;
+  /** Re-run the lookup for one of an ambiguous result's places */
+  onChoose?: (c: GeoCandidate, label: string) => void;
+}) {
   if (!result.ok) {
     return (
       <div className="card-surface max-w-md p-4">
@@ -27,6 +147,8 @@ export function WeatherWidget({ result }: { result: WeatherResult }) {
     );
   }
 
+  if (result.ambiguous) return <PlaceChoices result={result} onChoose={onChoose} />;
+
   const { place, daily, units } = result;
   const title = [place.name, place.region, place.country].filter(Boolean).join(", ") || "Weather";
   const sub = `${place.timezone} • ${daily.length} day${daily.length > 1 ? "s" : ""}`;
@@ -36,18 +158,22 @@ export function WeatherWidget({ result }: { result: WeatherResult }) {
       <div className="mb-1 text-sm font-semibold text-neutral-900 dark:text-neutral-100">{title}</div>
       <div className="mb-3 text-xs text-neutral-600 dark:text-neutral-400">{sub}</div>
 
+      <CurrentHeader result={result} />
+      <HourlyStrip result={result} />
+
       {/* Responsive compact strip: 2/4/7 columns to prevent cramped tiles */}
       <div className="grid grid-cols-2 sm:grid-cols-4 md:grid-cols-7 gap-2 text-center">
         {daily.slice(0, 7).map((d) => (
           <div
             key={d.date}
             className="rounded-xl border border-neutral-200/60 bg-white/70 px-2 py-2 text-xs dark:border-neutral-800/60 dark:bg-neutral-950/40 overflow-hidden min-w-0"
+            title={d.condition}
           >
             <div className="mb-1 font-medium text-neutral-800 dark:text-neutral-100 truncate">
               {dayName(d.date)}
             </div>
 
-            <div className="text-lg leading-none select-none"> {pickIcon(d.pop)} </div>
+            <div className="text-lg leading-none select-none"> {iconFor(d.code, true, d.pop)} </div>
 
             {/* Temp line: never overflow; gets smaller on narrow screens */}
             <div className="mt-1 tabular-nums text-neutral-800 dark:text-neutral-200 whitespace-nowrap truncate text-[11px] md:text-xs leading-5">
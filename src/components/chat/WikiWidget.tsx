@@ -1,7 +1,42 @@
 // src/components/chat/WikiWidget.tsx
+import { useState } from "react";
 
 export type WikiResult = import("../../../worker/tools/getWiki").WikiResult;
 
+type WikiOk = Extract<WikiResult, { ok: true }>;
+
+function Outline({ result }: { result: WikiOk }) {
+  const [open, setOpen] = useState(false);
+  const outline = result.outline ?? [];
+  if (!outline.length) return null;
+  const cited = new Set((result.sections ?? []).map((s) => s.title));
+
+  return (
+    <div className="mb-2">
+      <button
+        className="text-xs font-medium text-neutral-700 hover:underline dark:text-neutral-300"
+        onClick={() => setOpen((o) => !o)}
+        aria-expanded={open}
+      >
+        {open ? "Hide contents ▴" : `Contents (${outline.length}) ▾`}
+      </button>
+      {open && (
+        <ul className="chat-scroll mt-1 max-h-48 overflow-y-auto text-xs text-neutral-600 dark:text-neutral-400">
+          {outline.map((h, i) => (
+            <li
+              key={`${i}-${h.title}`}
+              style={{ paddingLeft: `${(h.level - 1) * 12}px` }}
+              className={cited.has(h.title) ? "font-semibold text-neutral-900 dark:text-neutral-100" : undefined}
+            >
+              {h.title}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
 export function WikiWidget({ result }: { result: WikiResult }) {
   if (!result.ok) {
     return (
@@ -12,7 +47,7 @@ export function WikiWidget({ result }: { result: WikiResult }) {
     );
   }
 
-  const { title, description, extract, pageUrl, thumbnailUrl } = result;
+  const { title, description, extract, pageUrl, thumbnailUrl, sections = [], candidates = [] } = result;
   const snippet = extract.length > 520 ? extract.slice(0, 520).trimEnd() + "…" : extract;
 
   return (
@@ -39,6 +74,31 @@ export function WikiWidget({ result }: { result: WikiResult }) {
 
       <p className="mb-2 text-sm leading-relaxed text-neutral-900 dark:text-neutral-100">{snippet}</p>
 
+      {sections.length > 0 && (
+        <div className="mb-2 flex flex-col gap-1.5">
+          {sections.map((s) => (
+            <a
+              key={s.url}
+              href={s.url}
+              target="_blank"
+              rel="noreferrer"
+              className="block rounded-lg border border-neutral-200/60 bg-white/70 px-3 py-1.5 hover:bg-white dark:border-neutral-800/60 dark:bg-neutral-950/40 dark:hover:bg-neutral-900"
+            >
+              <div className="text-xs font-medium text-neutral-800 dark:text-neutral-200">§ {s.title}</div>
+              <div className="line-clamp-2 text-[11px] text-neutral-600 dark:text-neutral-400">{s.text}</div>
+            </a>
+          ))}
+        </div>
+      )}
+
+      <Outline result={result} />
+
+      {candidates.length > 0 && (
+        <div className="mb-2 truncate text-[11px] text-neutral-500 dark:text-neutral-400" title={candidates.map((c) => c.title).join(", ")}>
+          Also matched: {candidates.map((c) => c.title).join(" • ")}
+        </div>
+      )}
+
       <a
         href={pageUrl}
         target="_blank"
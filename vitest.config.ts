@@ -0,0 +1,8 @@
+import { defineConfig } from "vitest/config";
+
+// Unit tests for the Worker's pure modules; they run in Node, not the Workers runtime
+export default defineConfig({
+  test: {
+    include: ["worker/**/*.test.ts"],
+  },
+});
@@ -2,20 +2,51 @@
 import { Agent, type Connection, type ConnectionContext } from "agents";
 
 import {
-  getWeather,
-  getWeatherToolSchema,
-  type WeatherArgs,
-  type WeatherResult,
-} from "./tools/getWeather";
-
+  findTool,
+  toolManifest,
+  toolSchemas,
+  plannerToolLines,
+  chatToolLines,
+  type ToolEvent,
+} from "./tools";
+import type { RegisteredTool, ToolArgs, ToolErrorCode, ToolFailure, ToolResultBase } from "./tools/types";
+import { synthesisModeFor, synthesisPrompt, verifyGrounded } from "./synthesis";
+import { fitHistory, summaryPrompt } from "./context";
+import { migrate } from "./migrations";
+import { createToolCache } from "./toolCache";
+import { DEFAULT_MODEL, findModel, modelCatalog, plannerModelFor } from "./models";
 import {
-  getWiki,
-  getWikiToolSchema,
-  type WikiArgs,
-  type WikiResult,
-} from "./tools/getWiki";
-
-import { getISS, getISSToolSchema, type IssResult } from "./tools/getISS";
+  isHttpUrl,
+  mcpNamespace,
+  mcpToolName,
+  mcpTools,
+  parseMcpServers,
+  stringRecord,
+  type McpServerConfig,
+  type McpServerInfo,
+} from "./mcp";
+import {
+  API_NAME_PATTERN,
+  ApiSpecError,
+  MAX_DOCUMENT_BYTES,
+  apiSpecInfo,
+  apiTools,
+  injectSecrets,
+  parseApiSpec,
+  type ApiSpec,
+  type ApiSpecConfig,
+  type ApiSpecInfo,
+} from "./openapi";
+import {
+  TURN_FRAMES,
+  encodeFrame,
+  parseClientFrame,
+  type ClientFrame,
+  type ServerFrame,
+  type SessionState,
+  type ThreadInfo,
+  type WireMessage,
+} from "./protocol";
 
 // Workers AI binding type - just what we need for chat
 type WorkersAiBinding = {
@@ -31,7 +62,7 @@ type WorkersAiBinding = {
   ) => Promise<ReadableStream<Uint8Array> | object | string | null | undefined>;
 };
 
-// Add AI to the base Env type
+// The base Env with the AI binding narrowed to what we call (vars are in env.d.ts)
 type EnvWithAI = Env & { AI: WorkersAiBinding };
 
 // Chat message format for the AI model (no timestamp needed)
@@ -48,318 +79,1015 @@ type AiPlanResponse = {
   tool_calls?: AiToolCall[];
 };
 
-type ToolEvent =
-  | { type: "tool"; tool: "getWeather"; status: "started"; message?: string }
-  | { type: "tool"; tool: "getWeather"; status: "step";    message?: string }
-  | { type: "tool"; tool: "getWeather"; status: "done";    message?: string; result: WeatherResult }
-  | { type: "tool"; tool: "getWeather"; status: "error";   message: string }
-  | { type: "tool"; tool: "getWiki";    status: "started"; message?: string }
-  | { type: "tool"; tool: "getWiki";    status: "step";    message?: string }
-  | { type: "tool"; tool: "getWiki";    status: "done";    message?: string; result: WikiResult }
-  | { type: "tool"; tool: "getWiki";    status: "error";   message: string }
-  | { type: "tool"; tool: "getISS";     status: "started"; message?: string }
-  | { type: "tool"; tool: "getISS";     status: "step";    message?: string }
-  | { type: "tool"; tool: "getISS";     status: "done";    message?: string; result: IssResult }
-  | { type: "tool"; tool: "getISS";     status: "error";   message: string };
-
-function emitTool(conn: Connection, evt: ToolEvent) {
-  conn.send(JSON.stringify(evt));
+// A validated tool call from the planner
+type ToolPlan = { tool: RegisteredTool; args: ToolArgs };
+
+// One executed tool call within a turn - fed back to the planner as an observation
+type ToolRun = ToolPlan & { callId: string; result: ToolResultBase; latencyMs: number };
+
+// Where a turn's frames go: the client's WebSocket, or a collector when the
+// turn comes in over RPC (see `chat()`)
+type FrameSink = { send(frame: ServerFrame): void };
+
+/** What a turn run without a WebSocket hands back: `chat()` over RPC, or the HTTP chat API */
+export type AgentChatReply = {
+  requestId: string;
+  reply: string;
+  threadId: string;
+  /** Server id of the saved user message */
+  messageId: number | null;
+  tools: { tool: string; result: ToolResultBase }[];
+  /** Tokens the models reported for the turn's replies (tool planning isn't counted) */
+  usage: TokenUsage;
+};
+
+// Extras for a turn from the HTTP API. `model` is for this turn only; `apiThread` runs it in
+// the session's API thread (`newThread` starts a new one) instead of the active thread.
+type ExternalTurnOptions = { fresh?: boolean; model?: string; apiThread?: boolean; newThread?: boolean };
+
+// openapi.add message or PUT body → registration config
+function apiSpecConfig(name: string, raw: { document?: unknown; baseUrl?: unknown; operations?: unknown; headers?: unknown }): ApiSpecConfig {
+  if (!API_NAME_PATTERN.test(name)) throw new ApiSpecError("The name must be 1-32 letters, digits, _ or -");
+  const document = typeof raw.document === "string" ? raw.document : raw.document ? JSON.stringify(raw.document) : "";
+  if (!document) throw new ApiSpecError("`document` is required");
+  if (document.length > MAX_DOCUMENT_BYTES) throw new ApiSpecError(`The document is larger than ${MAX_DOCUMENT_BYTES / 1024} KB`);
+  return {
+    name,
+    document,
+    baseUrl: typeof raw.baseUrl === "string" && raw.baseUrl ? raw.baseUrl : undefined,
+    operations: Array.isArray(raw.operations) ? raw.operations.filter((o): o is string => typeof o === "string") : undefined,
+    headers: stringRecord(raw.headers),
+  };
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } });
 }
 
+// Frames to one WebSocket, tagged with the request they answer
+function wire(conn: Connection, requestId?: string): FrameSink {
+  return { send: (frame) => conn.send(encodeFrame(frame, { requestId })) };
+}
+
+// Numbered frames of one turn, kept for a while so a client that reconnects can
+// replay what it missed; `sink` sends to every connection
+type TurnLog = { frames: string[]; running: boolean; endedAt: number; sink: FrameSink };
+
+// Also sees each frame of a turn, with its encoded form
+type FrameTap = (frame: ServerFrame, data: string) => void;
+
 // Message row stored in DB and state
-type Msg = { role: "user" | "assistant" | "tool"; content: string; ts: number };
+type Msg = WireMessage;
 
-// DO state structure
-type State = {
-  model: string;
-  messages: Msg[]; // all messages with timestamps
-  createdAt: number;
-  expiresAt: number;
+type TokenUsage = { promptTokens: number; completionTokens: number };
+
+// Queryable columns stored next to a row
+type RowMeta = {
+  tool?: string;
+  toolOk?: boolean;
+  model?: string;
+  latencyMs?: number;
+  usage?: TokenUsage;
 };
 
+// Stored row; messages form a tree per thread and the thread's head picks the active branch
+type MsgRow = Omit<Msg, "siblings" | "tool"> & { parentId: number | null; tool: string | null };
+
+// DO state structure
+type State = SessionState;
+
 const DAY = 86_400_000;
-const DEFAULT_MODEL = "@cf/meta/llama-4-scout-17b-16e-instruct";
+const DEFAULT_MAX_TOOL_STEPS = 4;
+const MAX_PARALLEL_CALLS = 4;
+const OBSERVATION_MAX_CHARS = 1500;
+const INTERRUPTED_NOTE = " _(stopped)_";
+const DEFAULT_THREAD_TITLE = "New chat";
+const TURN_LOG_TTL_MS = 120_000;
+const MAX_TURN_LOGS = 8;
+// Storage key of the thread HTTP turns with `apiThread` run in
+const API_THREAD_KEY = "apiThreadId";
+// Frames that rewrite or replace the active thread; they wait for a running turn to end
+const THREAD_FRAMES: readonly ClientFrame["type"][] = ["reset", "branch", "thread.create", "thread.switch", "thread.delete"];
 
 // Helper functions
 function isReadableStream(x: unknown): x is ReadableStream<Uint8Array> {
   return !!x && typeof (x as { getReader?: unknown }).getReader === "function";
 }
-function isUserOrAssistant(m: Msg): m is { role: "user" | "assistant"; content: string; ts: number } {
-  return m.role === "user" || m.role === "assistant";
+// Resolve one planner tool_call into a registered tool + validated args
+function parseToolCall(call: AiToolCall | undefined, extra: readonly RegisteredTool[]): ToolPlan | null {
+  const toolName = call?.function?.name;
+
+  // Make sure it's a registered (or MCP-discovered) tool
+  const tool = findTool(toolName, extra);
+  if (!tool) {
+    console.log("[agent] unified-planner: invalid or unknown tool name:", toolName);
+    return null;
+  }
+
+  const rawArgs = call?.function?.arguments;
+
+  // Log what the model decided
+  console.log("[agent] unified-planner: model decided tool:", toolName, "with args:",
+    typeof rawArgs === "string" ? rawArgs.slice(0, 100) : JSON.stringify(rawArgs)?.slice(0, 100));
+
+  // Parse args and validate per tool
+  let parsedArgs: unknown = rawArgs;
+
+  if (typeof rawArgs === "string") {
+    try {
+      parsedArgs = JSON.parse(rawArgs);
+    } catch (e) {
+      console.log("[agent] unified-planner: failed to parse args JSON:", e instanceof Error ? e.message : String(e));
+      parsedArgs = {};
+    }
+  }
+
+  const args = tool.validateArgs(parsedArgs);
+  if (!args) {
+    console.log("[agent] unified-planner:", toolName, "selected but args are invalid, ignoring:", JSON.stringify(parsedArgs));
+    return null;
+  }
+
+  return { tool, args };
+}
+
+// Replays a tool run to the planner: what was called, then what came back
+function observationMessages({ tool, args, result }: ToolRun): AiChatMessage[] {
+  const json = JSON.stringify(result);
+  const data = json.length > OBSERVATION_MAX_CHARS ? json.slice(0, OBSERVATION_MAX_CHARS) + "…" : json;
+  return [
+    { role: "assistant", content: `Calling ${tool.name} with ${JSON.stringify(args)}` },
+    {
+      role: "user",
+      content:
+        `${tool.name} returned: ${data}\n\n` +
+        "Call another tool only if my original question still needs more information.",
+    },
+  ];
+}
+
+// Reply for a failed tool call, by error code. Failures without one (a place that wasn't found,
+// an ambiguous Wikipedia title) already say what went wrong, so their own text is used.
+const TOOL_ERROR_TEXT: Record<ToolErrorCode, (title: string) => string> = {
+  timeout: (t) => `${t} didn't respond in time. Please try again in a moment.`,
+  upstream_5xx: (t) => `${t} is having trouble right now. Please try again shortly.`,
+  upstream_4xx: (t) => `${t} couldn't handle that request. Try rephrasing it.`,
+  malformed: (t) => `${t} sent back data I couldn't read. Please try again later.`,
+  not_found: (t) => `${t} has nothing for that. Check the spelling or try a different name.`,
+};
+
+function failureText(tool: RegisteredTool, result: ToolFailure): string {
+  return result.code ? TOOL_ERROR_TEXT[result.code](tool.title) : result.error || tool.failureMessage;
+}
+
+/** "42s", "5 min", "3 h", "2 d" */
+function formatAge(ms: number): string {
+  const s = Math.round(ms / 1000);
+  if (s < 60) return `${s}s`;
+  if (s < 3600) return `${Math.round(s / 60)} min`;
+  if (s < 86_400) return `${Math.round(s / 3600)} h`;
+  return `${Math.round(s / 86_400)} d`;
+}
+
+/** Adds Workers AI `usage` ({ prompt_tokens, completion_tokens }) if present */
+function addUsage(into: TokenUsage, raw: unknown) {
+  if (!raw || typeof raw !== "object") return;
+  const { prompt_tokens, completion_tokens } = raw as { prompt_tokens?: unknown; completion_tokens?: unknown };
+  if (typeof prompt_tokens === "number") into.promptTokens += prompt_tokens;
+  if (typeof completion_tokens === "number") into.completionTokens += completion_tokens;
+}
+
+/** Root → head path through a thread's message tree, with alternatives marked */
+function activeBranch(rows: MsgRow[], headId: number | null): Msg[] {
+  const byId = new Map(rows.map((r) => [r.id, r]));
+  const children = childrenByParent(rows);
+
+  const path: Msg[] = [];
+  for (let row = headId === null ? undefined : byId.get(headId); row; row = row.parentId === null ? undefined : byId.get(row.parentId)) {
+    const siblings = children.get(row.parentId)?.map((r) => r.id) ?? [];
+    path.unshift({
+      id: row.id,
+      role: row.role,
+      content: row.content,
+      ts: row.ts,
+      ...(row.tool ? { tool: row.tool } : {}),
+      ...(siblings.length > 1 ? { siblings } : {}),
+    });
+  }
+  return path;
+}
+
+/** Newest descendant of `id`, following the latest child at each fork */
+function latestLeaf(rows: MsgRow[], id: number): number {
+  const children = childrenByParent(rows);
+  let leaf = id;
+  for (let next = children.get(leaf); next?.length; next = children.get(leaf)) {
+    leaf = next[next.length - 1].id;
+  }
+  return leaf;
+}
+
+function childrenByParent(rows: MsgRow[]): Map<number | null, MsgRow[]> {
+  const children = new Map<number | null, MsgRow[]>();
+  for (const r of rows) {
+    const list = children.get(r.parentId);
+    if (list) list.push(r);
+    else children.set(r.parentId, [r]);
+  }
+  return children;
 }
 
 export default class AIAgent extends Agent<EnvWithAI, State> {
+  // In-flight chat turns; `stop` aborts them
+  #turns = new Set<AbortController>();
+  // Recent turns' frames by request id, for `resume`
+  #turnLogs = new Map<string, TurnLog>();
+  // Settles when the current turn (or thread change) ends; the next one waits for it
+  #turnLock: Promise<void> = Promise.resolve();
+  // Model of the running turn when it isn't the session's (an HTTP turn's `model`)
+  #turnModel: string | null = null;
+  #migrated = false;
+  #origin: string | null = null;
+  #mcpBooted = false;
+  // Parsed OpenAPI documents; null = reload from `openapi_specs`
+  #apiSpecs: ApiSpec[] | null = null;
+
   initialState: State = {
     model: DEFAULT_MODEL,
+    threadId: "",
     messages: [],
+    summary: null,
     createdAt: Date.now(),
     expiresAt: Date.now() + DAY,
   };
 
   async onConnect(conn: Connection, ctx: ConnectionContext) {
     console.log("[agent] connect", { name: this.name, url: ctx.request.url });
+    // Behind any running turn: its later frames wouldn't line up with a snapshot taken mid-write
+    const out = wire(conn);
+    await this.#serialized(async () => {
+      await this.#openSession();
+      out.send({ type: "ready", state: this.state, tools: toolManifest(this.#extraTools()) });
+      await this.#sendThreads(out);
+    });
 
-    await this.#schema();
-    if (!this.state.messages?.length) {
-      const rows = await this.sql<Msg>`SELECT role, content, ts FROM messages ORDER BY ts ASC`;
-      this.setState({
-        ...this.state,
-        messages: rows,
-        expiresAt: Date.now() + DAY,
-      });
+    // MCP callbacks (OAuth) need a public origin, which only a request tells us
+    this.#origin ??= new URL(ctx.request.url).origin;
+    if (!this.#mcpBooted) {
+      this.#mcpBooted = true;
+      this.mcp.onConnected(() => this.#broadcastMcp());
+      void this.#connectDeploymentServers();
     }
+  }
+
+  // Admin HTTP routes for OpenAPI tools, under /agents/ai-agent/<session>/openapi:
+  //   GET           list the registered documents
+  //   PUT /<name>   register or replace (body: { document, baseUrl?, operations?, headers? })
+  //   DELETE /<name>
+  // PUT and DELETE need `Authorization: Bearer <ADMIN_TOKEN>`.
+  // `.../messages` is the HTTP chat API (see #messagesRequest).
+  async onRequest(request: Request): Promise<Response> {
+    const path = new URL(request.url).pathname;
+    if (/^\/(?:agents\/ai-agent|api\/sessions)\/[^/]+\/messages\/?$/.test(path)) return this.#messagesRequest(request);
+
+    const match = path.match(/^\/agents\/ai-agent\/[^/]+\/openapi(?:\/([^/]+))?\/?$/);
+    if (!match) return new Response("Not found", { status: 404 });
+    this.#migrate();
+    const name = match[1] ? decodeURIComponent(match[1]) : "";
+
+    if (request.method === "GET" && !name) return jsonResponse({ apis: this.#apiInfo() });
+    if (!name || (request.method !== "PUT" && request.method !== "DELETE")) {
+      return new Response("Method Not Allowed", { status: 405, headers: { Allow: "GET, PUT, DELETE" } });
+    }
+
+    const token = request.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+    if (!this.#isAdmin(token)) return jsonResponse({ error: "A valid admin token is required" }, 403);
+
+    if (request.method === "DELETE") {
+      return (await this.#removeApi(name)) ? jsonResponse({ removed: name }) : jsonResponse({ error: `No API named ${name}` }, 404);
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return jsonResponse({ error: "The body must be JSON" }, 400);
+    }
+    try {
+      const api = await this.#registerApi(apiSpecConfig(name, typeof body === "object" && body ? body : {}));
+      return jsonResponse({ api });
+    } catch (e) {
+      if (!(e instanceof ApiSpecError)) throw e;
+      return jsonResponse({ error: e.message }, 400);
+    }
+  }
 
-    conn.send(JSON.stringify({ type: "ready", state: this.state }));
+  /**
+   * One chat turn without a WebSocket - the `/mcp` endpoint's `chat` tool calls
+   * this over RPC. Runs the usual pipeline in the active thread and returns the
+   * final reply (tool preambles left out) with the results of the tools it ran.
+   */
+  async chat(text: string): Promise<AgentChatReply> {
+    return this.#externalTurn(text);
+  }
+
+  // HTTP chat API, routed here from /api/sessions/<id>/messages:
+  //   GET   the active thread: { threadId, messages }
+  //   POST  { message, stream?, fresh?, model?, apiThread?, newThread? } runs a turn. The reply
+  //         is the AgentChatReply as JSON, or with `stream: true` / `Accept: text/event-stream` an
+  //         SSE stream of the turn's frames (event = frame type, data = the frame as on the
+  //         WebSocket) ending in `result`. `model` is used for this turn only. `apiThread` runs it
+  //         in the session's API thread, `newThread` in a new one that becomes the API thread;
+  //         neither changes the active thread.
+  async #messagesRequest(request: Request): Promise<Response> {
+    await this.#openSession();
+    if (request.method === "GET") return jsonResponse({ threadId: this.state.threadId, messages: this.state.messages });
+    if (request.method !== "POST") {
+      return new Response("Method Not Allowed", { status: 405, headers: { Allow: "GET, POST" } });
+    }
+
+    let body: { message?: unknown; stream?: unknown; fresh?: unknown; model?: unknown; apiThread?: unknown; newThread?: unknown };
+    try {
+      body = ((await request.json()) ?? {}) as typeof body;
+    } catch {
+      return jsonResponse({ error: "The body must be JSON" }, 400);
+    }
+    if (typeof body.message !== "string" || !body.message.trim()) {
+      return jsonResponse({ error: "`message` must be a non-empty string" }, 400);
+    }
+    if (body.model !== undefined && !findModel(body.model)) {
+      return jsonResponse({ error: `Unknown model: ${String(body.model)}` }, 400);
+    }
+    const options: ExternalTurnOptions = {
+      fresh: body.fresh === true,
+      model: typeof body.model === "string" ? body.model : undefined,
+      apiThread: body.apiThread === true || body.newThread === true,
+      newThread: body.newThread === true,
+    };
+    const stream = body.stream === true || (request.headers.get("Accept") ?? "").includes("text/event-stream");
+    if (!stream) return jsonResponse(await this.#externalTurn(body.message, options));
+
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const writer = writable.getWriter();
+    const encoder = new TextEncoder();
+    // A caller that hangs up doesn't stop the turn; it's saved like any other
+    const event = (name: string, data: string) => void writer.write(encoder.encode(`event: ${name}\ndata: ${data}\n\n`)).catch(() => {});
+
+    void this.#externalTurn(body.message, options, (frame, data) => event(frame.type, data))
+      .then((result) => event("result", JSON.stringify(result)))
+      .catch((e) => {
+        const message = e instanceof Error ? e.message : String(e);
+        console.log("[agent] http turn failed", { message });
+        event("error", JSON.stringify({ message }));
+      })
+      .finally(() => void writer.close().catch(() => {}));
+
+    return new Response(readable, { headers: { "content-type": "text/event-stream", "cache-control": "no-cache" } });
+  }
+
+  // A turn that comes in over RPC or HTTP: runs like a WebSocket one (logged, broadcast
+  // to open tabs, one at a time) and collects the answer. `tap` also gets every frame.
+  async #externalTurn(text: string, options: ExternalTurnOptions = {}, tap?: FrameTap): Promise<AgentChatReply> {
+    await this.#openSession();
+    const userText = text.trim();
+    const requestId = crypto.randomUUID();
+    const result: AgentChatReply = {
+      requestId,
+      reply: "",
+      threadId: this.state.threadId,
+      messageId: null,
+      tools: [],
+      usage: { promptTokens: 0, completionTokens: 0 },
+    };
+    if (!userText) return result;
+
+    // Each delta…done run is one message; the last one is the answer
+    let segment = "";
+    const collect: FrameTap = (frame, data) => {
+      if (frame.type === "delta") segment += frame.text;
+      if (frame.type === "done" || frame.type === "stopped") {
+        if (segment) result.reply = segment;
+        segment = "";
+      }
+      if (frame.type === "saved") result.messageId = frame.id;
+      if (frame.type === "tool" && frame.status === "done") result.tools.push({ tool: frame.tool, result: frame.result });
+      if (frame.type === "tool" && frame.status === "error") result.tools.push({ tool: frame.tool, result: { ok: false, error: frame.message } });
+      tap?.(frame, data);
+    };
+
+    console.log("[agent] external turn", { name: this.name, requestId, model: options.model, apiThread: !!options.apiThread });
+    await this.#loggedTurn(
+      requestId,
+      async (all) => {
+        // Read under the lock: a turn queued ahead may have switched threads
+        const threadId = options.apiThread ? await this.#apiThread(options.newThread === true) : this.state.threadId;
+        const active = threadId === this.state.threadId;
+        // Other tabs show the active thread, so frames of a turn elsewhere only reach the caller
+        const sink: FrameSink = active ? all : { send: (frame) => collect(frame, encodeFrame(frame, { requestId })) };
+        result.threadId = threadId;
+
+        this.#turnModel = options.model ?? null;
+        try {
+          await this.#turn(async (signal) => {
+            const prior = active ? this.state.messages : (await this.#readThread(threadId)).messages;
+            const id = await this.#saveMessage(threadId, "user", userText);
+            sink.send({ type: "saved", id, text: userText });
+            await this.#respond(sink, threadId, prior, userText, signal, options.fresh);
+            result.usage = await this.#turnUsage(threadId, id);
+          });
+        } finally {
+          this.#turnModel = null;
+        }
+        // A new or retitled thread in the sidebar
+        if (!active) await this.#sendThreads(this.#everyone());
+      },
+      collect
+    );
+    result.reply ||= segment;
+    return result;
+  }
+
+  // Schema, model and active thread in place - before the first frame of a connection or RPC turn
+  async #openSession() {
+    this.#migrate();
+
+    // A model dropped from the catalog since this session picked it
+    if (!findModel(this.state.model)) {
+      console.log("[agent] stored model not in catalog, using default", { model: this.state.model });
+      this.setState({ ...this.state, model: DEFAULT_MODEL });
+    }
+
+    // Reopen the active thread, or the most recent one, or start the first
+    const threads = await this.#listThreads();
+    const active = threads.find((t) => t.id === this.state.threadId) ?? threads[0] ?? (await this.#createThread());
+    if (active.id !== this.state.threadId || !this.state.messages?.length) {
+      await this.#loadThread(active.id);
+    }
   }
 
   async onMessage(conn: Connection, message: string | ArrayBuffer | ArrayBufferView) {
     if (typeof message !== "string") return;
 
-    let data: { type?: "chat" | "reset" | "model"; text?: string; model?: string } | null = null;
-    try { data = JSON.parse(message); } catch { /* ignore */ }
-    if (!data?.type) return;
+    const parsed = parseClientFrame(message);
+    if (!parsed.ok) {
+      console.log("[agent] frame rejected", { code: parsed.code, message: parsed.message });
+      wire(conn).send({ type: "error", code: parsed.code, message: parsed.message });
+      return;
+    }
+    const data = parsed.frame;
+    if (data.type === "resume") {
+      this.#resume(conn, data.requestId, data.lastSeq);
+      return;
+    }
+
+    // Replies carry the request id; turns get one even if the client sent none
+    const out = wire(conn, parsed.requestId);
+    if (THREAD_FRAMES.includes(data.type)) {
+      await this.#serialized(() => this.#handleFrame(data, out, this.#everyone(parsed.requestId)));
+      return;
+    }
+    if (!TURN_FRAMES.includes(data.type)) {
+      await this.#handleFrame(data, out, this.#everyone(parsed.requestId));
+      return;
+    }
+    const requestId = parsed.requestId ?? crypto.randomUUID();
+    await this.#loggedTurn(requestId, (all) => this.#handleFrame(data, wire(conn, requestId), all));
+  }
+
+  // `out` answers the sender; `all` reaches every connection (for a turn, through its log)
+  async #handleFrame(data: ClientFrame, out: FrameSink, all: FrameSink) {
+    if (data.type === "models") {
+      this.#sendModels(out);
+      return;
+    }
 
     if (data.type === "model" && data.model) {
+      if (!findModel(data.model)) {
+        console.log("[agent] unknown model rejected", { model: data.model });
+        out.send({ type: "error", code: "unknown_model", message: `Unknown model: ${data.model}` });
+        return;
+      }
       this.setState({ ...this.state, model: data.model, expiresAt: Date.now() + DAY });
       console.log("[agent] model set", { model: data.model });
+      this.#sendModels(all);
+      return;
+    }
+
+    if (data.type === "mcp.list") {
+      out.send({ type: "mcp", servers: this.#mcpServers() });
+      return;
+    }
+
+    // Session-scoped MCP server; its tools join the planner once discovered
+    if (data.type === "mcp.add") {
+      const name = (data.name || "").trim();
+      if (!name || !isHttpUrl(data.url)) {
+        out.send({ type: "error", code: "invalid_mcp_server", message: "An MCP server needs a name and an http(s) URL" });
+        return;
+      }
+      try {
+        await this.#addMcpServer({ name, url: data.url, headers: data.headers });
+      } catch (e) {
+        const message = e instanceof Error ? e.message : String(e);
+        console.log("[agent] mcp.add failed", { name, url: data.url, message });
+        out.send({ type: "error", code: "mcp_connect_failed", message: `Couldn't connect to ${name}: ${message}` });
+      }
+      this.#broadcastMcp();
+      return;
+    }
+
+    if (data.type === "mcp.remove" && data.serverId) {
+      const server = this.#mcpServers().find((s) => s.id === data.serverId);
+      if (server?.scope === "session") await this.removeMcpServer(server.id);
+      this.#broadcastMcp();
+      return;
+    }
+
+    if (data.type === "openapi.list") {
+      out.send({ type: "openapi", apis: this.#apiInfo() });
+      return;
+    }
+
+    // Admin only: register or drop an OpenAPI document (same as the HTTP routes in onRequest)
+    if (data.type === "openapi.add" || data.type === "openapi.remove") {
+      if (!this.#isAdmin(data.adminToken)) {
+        out.send({ type: "error", code: "forbidden", message: "Managing API tools needs a valid admin token" });
+        return;
+      }
+      const name = (data.name || "").trim();
+      if (data.type === "openapi.remove") {
+        await this.#removeApi(name);
+        return;
+      }
+      try {
+        await this.#registerApi(apiSpecConfig(name, data));
+      } catch (e) {
+        if (!(e instanceof ApiSpecError)) throw e;
+        out.send({ type: "error", code: "invalid_openapi", message: e.message });
+      }
       return;
     }
 
+    if (data.type === "stop") {
+      console.log("[agent] stop requested", { running: this.#turns.size });
+      if (!this.#turns.size) {
+        out.send({ type: "stopped" });
+        return;
+      }
+      // Each running turn notices the abort, saves what it has and sends `stopped`
+      for (const turn of this.#turns) turn.abort();
+      return;
+    }
+
+    // Reset clears the active thread only
     if (data.type === "reset") {
-      await this.sql`DELETE FROM messages`;
+      const threadId = this.state.threadId;
+      await this.sql`DELETE FROM messages WHERE thread_id = ${threadId}`;
+      await this.sql`UPDATE threads SET head_id = NULL, summary = NULL, summary_through = NULL, updated_at = ${Date.now()} WHERE id = ${threadId}`;
       this.setState({
         model: this.state.model,
+        threadId,
         messages: [],
+        summary: null,
         createdAt: Date.now(),
         expiresAt: Date.now() + DAY,
       });
-      conn.send(JSON.stringify({ type: "cleared" }));
+      all.send({ type: "cleared" });
       return;
     }
 
-    if (data.type === "chat") {
-      const userText = (data.text || "").trim();
-      if (!userText) return;
+    if (data.type === "thread.list") {
+      await this.#sendThreads(out);
+      return;
+    }
 
-      // Save user message to DB
-      const now = Date.now();
-      await this.sql`INSERT INTO messages (role, content, ts) VALUES ('user', ${userText}, ${now})`;
-      const userMsg: Msg = { role: "user", content: userText, ts: now };
+    if (data.type === "thread.create") {
+      const thread = await this.#createThread((data.title || "").trim() || DEFAULT_THREAD_TITLE);
+      await this.#switchThread(all, thread.id);
+      return;
+    }
 
-      this.setState({
-        ...this.state,
-        messages: [...this.state.messages, userMsg],
-        expiresAt: Date.now() + DAY,
-      });
+    if (data.type === "thread.switch" && data.threadId) {
+      const exists = (await this.#listThreads()).some((t) => t.id === data.threadId);
+      // Unknown id (deleted in another tab?) - just resync the list
+      if (!exists) {
+        await this.#sendThreads(out);
+        return;
+      }
+      await this.#switchThread(all, data.threadId);
+      return;
+    }
 
-      // Grab recent messages for context (last 40, no timestamps)
-      const recentUA = this.state.messages.slice(-40).filter(isUserOrAssistant);
-      const history: AiChatMessage[] = recentUA.map(({ role, content }) => ({ role, content }));
-
-      // Let the model decide what to do - no hardcoded patterns
-      // It can call a tool or just chat naturally
-      console.log("[agent] phase-3: invoking unified planner for tool selection");
-      const toolPlan = await this.#planWithAllTools(history, userText);
-
-      // ISS tool execution
-      if (toolPlan?.tool === "getISS") {
-        console.log("[agent] phase-3: executing getISS based on model decision");
-        const pre = `Let me check the ISS position…`;
-        conn.send(JSON.stringify({ type: "delta", text: pre }));
-        conn.send(JSON.stringify({ type: "done" }));
-        await this.#saveAssistant(conn, pre);
-
-        emitTool(conn, { type: "tool", tool: "getISS", status: "started", message: "Understanding intent…" });
-        emitTool(conn, { type: "tool", tool: "getISS", status: "step",    message: "Fetching live position…" });
-
-        const res = await getISS();
-
-        if (!res.ok) {
-          emitTool(conn, { type: "tool", tool: "getISS", status: "error", message: res.error });
-          const err = `I couldn't fetch the ISS position. Please try again in a moment.`;
-          conn.send(JSON.stringify({ type: "delta", text: err }));
-          conn.send(JSON.stringify({ type: "done" }));
-          await this.#saveAssistant(conn, err);
-          return;
-        }
+    if (data.type === "thread.rename" && data.threadId) {
+      const title = (data.title || "").trim().slice(0, 80);
+      if (!title) return;
+      await this.sql`UPDATE threads SET title = ${title}, updated_at = ${Date.now()} WHERE id = ${data.threadId}`;
+      await this.#sendThreads(all);
+      return;
+    }
 
-        emitTool(conn, { type: "tool", tool: "getISS", status: "done", message: "Position updated", result: res });
-
-        const toolRow: Msg = {
-          role: "tool",
-          content: JSON.stringify({ type: "tool_result", tool: "getISS", result: res }),
-          ts: Date.now(),
-        };
-        await this.sql`INSERT INTO messages (role, content, ts) VALUES ('tool', ${toolRow.content}, ${toolRow.ts})`;
-        this.setState({
-          ...this.state,
-          messages: [...this.state.messages, toolRow],
-          expiresAt: Date.now() + DAY,
-        });
-
-        // Use template for summary - model kept hallucinating placeholder values
-        console.log("[agent] phase-4: using deterministic summary for ISS (reliable)");
-        const summary = this.#summarizeISS(res);
-        conn.send(JSON.stringify({ type: "delta", text: summary }));
-        conn.send(JSON.stringify({ type: "done" }));
-        await this.#saveAssistant(conn, summary);
-        return;
+    if (data.type === "thread.delete" && data.threadId) {
+      const threadId = data.threadId;
+      await this.sql`DELETE FROM messages WHERE thread_id = ${threadId}`;
+      await this.sql`DELETE FROM threads WHERE id = ${threadId}`;
+      console.log("[agent] thread deleted", { threadId });
+
+      if (threadId === this.state.threadId) {
+        const [next] = await this.#listThreads();
+        await this.#switchThread(all, next?.id ?? (await this.#createThread()).id);
+      } else {
+        await this.#sendThreads(all);
       }
+      return;
+    }
 
-      // Weather tool execution
-      if (toolPlan?.tool === "getWeather") {
-        console.log("[agent] phase-3: executing getWeather based on model decision");
-        const plannedWeather = toolPlan.args as WeatherArgs;
-        const pre = "Sure — I’ll check the forecast using getWeather…";
-        conn.send(JSON.stringify({ type: "delta", text: pre }));
-        conn.send(JSON.stringify({ type: "done" }));
-        await this.#saveAssistant(conn, pre);
-
-        emitTool(conn, { type: "tool", tool: "getWeather", status: "started", message: "Planning…" });
-        emitTool(conn, { type: "tool", tool: "getWeather", status: "step", message: "Fetching forecast from Open-Meteo…" });
-
-        const res = await getWeather(plannedWeather);
-
-        if (!res.ok) {
-          emitTool(conn, { type: "tool", tool: "getWeather", status: "error", message: res.error });
-          const errMsg = "I couldn't fetch the weather. Please check the location and try again.";
-          conn.send(JSON.stringify({ type: "delta", text: errMsg }));
-          conn.send(JSON.stringify({ type: "done" }));
-          await this.#saveAssistant(conn, errMsg);
-          return;
-        }
+    // Flip to another alternative of a message (and the newest branch below it)
+    if (data.type === "branch" && typeof data.messageId === "number") {
+      const threadId = this.state.threadId;
+      const rows = await this.#threadRows(threadId);
+      const target = rows.find((r) => r.id === data.messageId);
+      if (!target) return;
+
+      await this.#setHead(threadId, latestLeaf(rows, target.id), target.ts);
+      await this.#switchThread(all, threadId);
+      return;
+    }
+
+    // Edit: the new text becomes a sibling of the old message, then the turn re-runs
+    if (data.type === "edit" && typeof data.messageId === "number") {
+      const userText = (data.text || "").trim();
+      const threadId = this.state.threadId;
+      const idx = this.state.messages.findIndex((m) => m.id === data.messageId);
+      const target = this.state.messages[idx];
+      if (!userText || target?.role !== "user") return;
+
+      const prior = this.state.messages.slice(0, idx);
+      await this.#setHead(threadId, prior.at(-1)?.id ?? null, target.ts);
+      await this.#loadThread(threadId);
+      await this.#saveMessage(threadId, "user", userText);
+      console.log("[agent] edit", { messageId: target.id });
+      await this.#branchTurn(all, threadId, prior, userText);
+      return;
+    }
 
-        emitTool(conn, { type: "tool", tool: "getWeather", status: "done", message: "Forecast ready", result: res });
-
-        const toolRow: Msg = {
-          role: "tool",
-          content: JSON.stringify({ type: "tool_result", tool: "getWeather", result: res }),
-          ts: Date.now(),
-        };
-        await this.sql`INSERT INTO messages (role, content, ts) VALUES ('tool', ${toolRow.content}, ${toolRow.ts})`;
-        this.setState({
-          ...this.state,
-          messages: [...this.state.messages, toolRow],
-          expiresAt: Date.now() + DAY,
-        });
-
-        // Use template for summary - model kept hallucinating placeholder values
-        console.log("[agent] phase-4: using deterministic summary for Weather (reliable)");
-        const summary = this.#summarizeWeatherIntent(res);
-        conn.send(JSON.stringify({ type: "delta", text: summary }));
-        conn.send(JSON.stringify({ type: "done" }));
-        await this.#saveAssistant(conn, summary);
+    // Regenerate: rewind to the user message that prompted the reply and answer it again
+    if (data.type === "regenerate" && typeof data.messageId === "number") {
+      const threadId = this.state.threadId;
+      const idx = this.state.messages.findIndex((m) => m.id === data.messageId);
+      const userIdx = this.state.messages.findLastIndex((m, i) => i <= idx && m.role === "user");
+      if (idx === -1 || userIdx === -1) return;
+      const userMsg = this.state.messages[userIdx];
+
+      const prior = this.state.messages.slice(0, userIdx);
+      await this.#setHead(threadId, userMsg.id, userMsg.ts + 1);
+      await this.#loadThread(threadId);
+      console.log("[agent] regenerate", { messageId: userMsg.id });
+      await this.#branchTurn(all, threadId, prior, userMsg.content, data.fresh === true);
+      return;
+    }
+
+    // A choice made in a tool card (e.g. one of several matching places): run that
+    // tool with the exact args, no planner, and answer from its result
+    if (data.type === "tool.run" && data.tool) {
+      const tool: RegisteredTool | undefined = findTool(data.tool, this.#extraTools());
+      const args = tool?.validateArgs(data.args) ?? null;
+      const userText = (data.text || "").trim();
+      if (!tool || !args || !userText) {
+        out.send({ type: "error", code: "invalid_tool_call", message: `Can't run ${data.tool} with those arguments` });
         return;
       }
+      const threadId = this.state.threadId;
+
+      await this.#turn(async (signal) => {
+        const prior = this.state.messages;
+        const id = await this.#saveMessage(threadId, "user", userText);
+        all.send({ type: "saved", id, text: userText });
+        const history = await this.#buildHistory(threadId, prior);
+
+        const callId = crypto.randomUUID();
+        const started = Date.now();
+        const result = await this.#runTool(all, tool, args, callId, signal);
+        const run: ToolRun = { tool, args, callId, result, latencyMs: Date.now() - started };
+        await this.#saveToolRun(threadId, run);
+        await this.#replyFromTools(all, threadId, prior, history, userText, [run], signal);
+      });
+      return;
+    }
 
-      // Wiki tool execution
-      if (toolPlan?.tool === "getWiki") {
-        console.log("[agent] phase-3: executing getWiki based on model decision");
-        const plannedWiki = toolPlan.args as WikiArgs;
-        const pre = "Let me look that up on Wikipedia…";
-        conn.send(JSON.stringify({ type: "delta", text: pre }));
-        conn.send(JSON.stringify({ type: "done" }));
-        await this.#saveAssistant(conn, pre);
-
-        emitTool(conn, { type: "tool", tool: "getWiki", status: "started", message: "Understanding query…" });
-        emitTool(conn, { type: "tool", tool: "getWiki", status: "step", message: "Searching Wikipedia…" });
-
-        const res = await getWiki(plannedWiki);
-
-        if (!res.ok) {
-          emitTool(conn, { type: "tool", tool: "getWiki", status: "error", message: res.error });
-          const errMsg = "I couldn't fetch Wikipedia. Please refine the topic or try another query.";
-          conn.send(JSON.stringify({ type: "delta", text: errMsg }));
-          conn.send(JSON.stringify({ type: "done" }));
-          await this.#saveAssistant(conn, errMsg);
-          return;
-        }
+    if (data.type === "chat") {
+      const userText = (data.text || "").trim();
+      if (!userText) return;
+      const threadId = this.state.threadId;
 
-        emitTool(conn, { type: "tool", tool: "getWiki", status: "done", message: "Found entry", result: res });
-
-        const toolRow: Msg = {
-          role: "tool",
-          content: JSON.stringify({ type: "tool_result", tool: "getWiki", result: res }),
-          ts: Date.now(),
-        };
-        await this.sql`INSERT INTO messages (role, content, ts) VALUES ('tool', ${toolRow.content}, ${toolRow.ts})`;
-        this.setState({
-          ...this.state,
-          messages: [...this.state.messages, toolRow],
-          expiresAt: Date.now() + DAY,
-        });
-
-        // Use template for summary - model kept hallucinating placeholder values
-        console.log("[agent] phase-4: using deterministic summary for Wiki (reliable)");
-        const summary = this.#summarizeWiki(res);
-        conn.send(JSON.stringify({ type: "delta", text: summary }));
-        conn.send(JSON.stringify({ type: "done" }));
-        await this.#saveAssistant(conn, summary);
-        return;
+      await this.#turn(async (signal) => {
+        const prior = this.state.messages;
+        const id = await this.#saveMessage(threadId, "user", userText);
+        all.send({ type: "saved", id, text: userText });
+        await this.#respond(all, threadId, prior, userText, signal, data.fresh === true);
+      });
+    }
+  }
+
+  // Every connection on this session, e.g. other tabs or teammates sharing the session id
+  #everyone(requestId?: string): FrameSink {
+    return { send: (frame) => this.broadcast(encodeFrame(frame, { requestId })) };
+  }
+
+  // One turn start to finish: logged for `resume`, broadcast, and run after any turn
+  // already going, so two turns never interleave their setState calls and SQL writes
+  async #loggedTurn(requestId: string, run: (all: FrameSink) => Promise<void>, tap?: FrameTap) {
+    const log = this.#openTurnLog(requestId, tap);
+    try {
+      await this.#serialized(() => run(log.sink));
+    } finally {
+      log.running = false;
+      log.endedAt = Date.now();
+    }
+  }
+
+  // Runs `run` once everything queued before it on #turnLock has finished
+  async #serialized(run: () => Promise<void>) {
+    const previous = this.#turnLock;
+    let release = () => {};
+    this.#turnLock = new Promise((resolve) => (release = resolve));
+    try {
+      await previous;
+      await run();
+    } finally {
+      release();
+    }
+  }
+
+  // Starts logging a turn's frames; finished logs expire after TURN_LOG_TTL_MS
+  #openTurnLog(requestId: string, tap?: FrameTap): TurnLog {
+    const now = Date.now();
+    for (const [id, log] of this.#turnLogs) {
+      if (!log.running && (now - log.endedAt > TURN_LOG_TTL_MS || this.#turnLogs.size >= MAX_TURN_LOGS)) this.#turnLogs.delete(id);
+    }
+
+    const log: TurnLog = {
+      frames: [],
+      running: true,
+      endedAt: 0,
+      sink: {
+        send: (frame) => {
+          const data = encodeFrame(frame, { requestId, seq: log.frames.length + 1 });
+          log.frames.push(data);
+          this.broadcast(data);
+          tap?.(frame, data);
+        },
+      },
+    };
+    this.#turnLogs.set(requestId, log);
+    return log;
+  }
+
+  // A reconnected client catching up on a turn: the frames after `lastSeq`. Live ones
+  // already reach it as a broadcast; it skips those until the replay fills the gap.
+  #resume(conn: Connection, requestId: string, lastSeq: number) {
+    const log = this.#turnLogs.get(requestId);
+    const missed = log?.frames.slice(lastSeq) ?? [];
+    for (const frame of missed) conn.send(frame);
+    console.log("[agent] resume", { requestId, lastSeq, replayed: missed.length, known: !!log });
+    const out = wire(conn, requestId);
+    // Expired, or the DO restarted: whatever the turn saved is in the thread
+    if (!log) out.send({ type: "history", state: this.state });
+    out.send({ type: "resumed", running: log?.running ?? false, replayed: missed.length });
+  }
+
+  // Runs one abortable turn; `stop` aborts every turn in #turns
+  async #turn(run: (signal: AbortSignal) => Promise<void>) {
+    const abort = new AbortController();
+    this.#turns.add(abort);
+    try {
+      await run(abort.signal);
+    } finally {
+      this.#turns.delete(abort);
+    }
+  }
+
+  // Edit/regenerate: show the rewound branch, answer, then resync so new ids and
+  // branch counts reach the client
+  async #branchTurn(conn: FrameSink, threadId: string, prior: Msg[], userText: string, fresh = false) {
+    conn.send({ type: "history", state: this.state });
+    await this.#turn((signal) => this.#respond(conn, threadId, prior, userText, signal, fresh));
+    if (this.state.threadId === threadId) {
+      await this.#loadThread(threadId);
+      conn.send({ type: "history", state: this.state });
+    }
+  }
+
+  // Answers the user message just saved to `threadId` (after `prior`): run tools or chat, reply.
+  // Everything is saved to `threadId` even if the client switches threads mid-turn.
+  // `signal` fires when the client sends `stop`; `fresh` skips cached tool data.
+  async #respond(conn: FrameSink, threadId: string, prior: Msg[], userText: string, signal: AbortSignal, fresh = false) {
+    // Earlier turns that fit the model's budget (plus tool digests and the running summary)
+    const history = await this.#buildHistory(threadId, prior);
+
+    // Let the model decide what to do - no hardcoded patterns
+    // It can chain tool calls (plan → execute → observe) or just chat naturally
+    console.log("[agent] phase-3: invoking unified planner for tool selection");
+    const runs = await this.#runToolLoop(conn, threadId, history, userText, signal, fresh);
+
+    if (runs.length) {
+      await this.#replyFromTools(conn, threadId, prior, history, userText, runs, signal);
+      return;
+    }
+
+    // No tool needed, just chat
+    console.log("[agent] phase-3: no tool selected, proceeding with regular chat");
+    
+    // Tell the model what tools it has so it can explain them if asked
+    const system = 
+      "You are a friendly, helpful chat agent. Keep replies concise unless the user requests more details.\n\n" +
+      "You have access to these tools that you can use when appropriate:\n" +
+      chatToolLines(this.#extraTools()) + "\n\n" +
+      "When users ask about your capabilities or what you can do, naturally mention these tools. " +
+      "However, you don't need to call these tools right now - just have a conversation.";
+    
+    const payload: AiChatMessage[] = [
+      { role: "system", content: system },
+      ...history,
+      { role: "user", content: userText },
+    ];
+    const reply = await this.#streamAssistant(conn, threadId, payload, signal);
+    if (reply && !signal.aborted) await this.#maybeTitleThread(conn, threadId, prior, userText, reply);
+  }
+
+  // Final answer for a turn that ran tools (synthesized or templated), sent in one piece
+  async #replyFromTools(
+    conn: FrameSink,
+    threadId: string,
+    prior: Msg[],
+    history: AiChatMessage[],
+    userText: string,
+    runs: ToolRun[],
+    signal: AbortSignal
+  ) {
+    const started = Date.now();
+    const usage: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+    const answer = signal.aborted ? null : await this.#answerFromTools(history, userText, runs, signal, usage);
+    if (signal.aborted || answer === null) {
+      console.log("[agent] turn stopped during tool phase");
+      conn.send({ type: "stopped" });
+      return;
+    }
+    conn.send({ type: "delta", text: answer });
+    conn.send({ type: "done" });
+    await this.#saveMessage(threadId, "assistant", answer, {
+      model: this.#chatModel(),
+      latencyMs: Date.now() - started,
+      usage: usage.promptTokens || usage.completionTokens ? usage : undefined,
+    });
+    await this.#maybeTitleThread(conn, threadId, prior, userText, answer);
+  }
+
+  // Agent loop - plan, execute, feed the results back, repeat until the planner
+  // stops calling tools or the step budget runs out. Independent calls from one
+  // planner response run concurrently. Returns every tool run in planner order.
+  async #runToolLoop(
+    conn: FrameSink,
+    threadId: string,
+    history: AiChatMessage[],
+    userText: string,
+    signal: AbortSignal,
+    fresh: boolean
+  ): Promise<ToolRun[]> {
+    const maxSteps = this.#maxToolSteps();
+    const runs: ToolRun[] = [];
+    const seen = new Set<string>();
+
+    const chatModel = this.#chatModel();
+    const planner = plannerModelFor(chatModel, (this.env as EnvWithAI).PLANNER_MODEL);
+    if (!planner) {
+      console.log("[agent] loop: chat model can't call tools and no planner model is set, skipping tools", { chatModel });
+      return runs;
+    }
+    if (planner !== chatModel) console.log("[agent] loop: planning with tool-capable model", { planner, chatModel });
+
+    let step = 1;
+    for (; step <= maxSteps; step++) {
+      const planned = await this.#planWithAllTools(planner, history, userText, runs);
+      if (signal.aborted) break;
+
+      // The planner sometimes repeats itself instead of answering - drop repeats
+      const plans = planned.filter((plan) => {
+        const key = `${plan.tool.name}:${JSON.stringify(plan.args)}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+      if (!plans.length) {
+        if (planned.length) console.log("[agent] loop: planner only repeated earlier calls, stopping");
+        break;
       }
 
-      // No tool needed, just chat
-      console.log("[agent] phase-3: no tool selected, proceeding with regular chat");
-      
-      // Tell the model what tools it has so it can explain them if asked
-      const system = 
-        "You are a friendly, helpful chat agent. Keep replies concise unless the user requests more details.\n\n" +
-        "You have access to these tools that you can use when appropriate:\n" +
-        "- getWeather: Fetch 7-day weather forecasts for any location\n" +
-        "- getWiki: Look up information about people, places, things, or concepts from Wikipedia\n" +
-        "- getISS: Get the current position of the International Space Station\n\n" +
-        "When users ask about your capabilities or what you can do, naturally mention these tools. " +
-        "However, you don't need to call these tools right now - just have a conversation.";
-      
-      const payload: AiChatMessage[] = [
-        { role: "system", content: system },
-        ...history,
-        { role: "user", content: userText },
-      ];
-      await this.#streamAssistant(conn, payload);
+      console.log(`[agent] loop: step ${step}/${maxSteps} executing`, plans.map((p) => p.tool.name).join(", "), "based on model decision");
+
+      // One preamble per batch (two weather lookups shouldn't say it twice)
+      const pre = [...new Set(plans.map((p) => p.tool.preamble))].join(" ");
+      conn.send({ type: "delta", text: pre });
+      conn.send({ type: "done" });
+      await this.#saveMessage(threadId, "assistant", pre);
+
+      const batch = await Promise.all(
+        plans.map(async (plan) => {
+          const callId = crypto.randomUUID();
+          const started = Date.now();
+          const result = await this.#runTool(conn, plan.tool, plan.args, callId, signal, fresh);
+          return { ...plan, callId, result, latencyMs: Date.now() - started };
+        })
+      );
+
+      // Persist in planner order, not completion order
+      for (const run of batch) await this.#saveToolRun(threadId, run);
+      runs.push(...batch);
+      if (signal.aborted) break;
     }
+
+    if (step > maxSteps && !signal.aborted) console.log("[agent] loop: step budget exhausted", { maxSteps });
+    return runs;
+  }
+
+  // Context builder - newest turns verbatim within the model's token budget; anything
+  // older is folded into a stored running summary so follow-ups keep their context
+  async #buildHistory(threadId: string, rows: Msg[]): Promise<AiChatMessage[]> {
+    const model = this.#chatModel();
+    let summary = threadId === this.state.threadId ? this.state.summary : (await this.#readThread(threadId)).summary;
+    const unsummarized = rows.filter((m) => !summary || m.ts > summary.throughTs);
+
+    const fit = fitHistory(unsummarized, model, summary?.text ?? null);
+    let messages = fit.messages;
+    const overflow = fit.overflow;
+    if (overflow.length) {
+      console.log("[agent] context: summarizing overflow", { rows: overflow.length, model });
+      const text = await this.#generate(summaryPrompt(summary?.text ?? null, overflow, model));
+      if (text) {
+        summary = { text, throughTs: overflow[overflow.length - 1].ts };
+        await this.sql`UPDATE threads SET summary = ${text}, summary_through = ${summary.throughTs} WHERE id = ${threadId}`;
+        if (this.state.threadId === threadId) this.setState({ ...this.state, summary });
+        // The summary grew, so re-fit what's left against the smaller budget
+        ({ messages } = fitHistory(unsummarized.filter((m) => m.ts > summary!.throughTs), model, text));
+      }
+    }
+
+    return summary
+      ? [{ role: "system", content: `Summary of the earlier conversation:\n${summary.text}` }, ...messages]
+      : messages;
+  }
+
+  #chatModel(): string {
+    return this.#turnModel ?? (this.state.model || DEFAULT_MODEL);
+  }
+
+  #maxToolSteps(): number {
+    const n = Number.parseInt((this.env as EnvWithAI).MAX_TOOL_STEPS ?? "", 10);
+    return Number.isFinite(n) && n > 0 ? Math.min(n, 8) : DEFAULT_MAX_TOOL_STEPS;
   }
 
   // Unified tool planner - one model call to decide which tool (if any) to use
   // Replaces the old sequential checking approach with agentic decision making
-  // Returns null if no tool is needed, otherwise returns tool name + args
+  // Earlier runs in this turn are replayed as observations so calls can chain
+  // Returns [] if no tool is needed, otherwise every valid tool call + its args
   async #planWithAllTools(
+    model: string,
     history: AiChatMessage[],
-    userText: string
-  ): Promise<{ tool: "getWeather" | "getWiki" | "getISS"; args: unknown } | null> {
+    userText: string,
+    runs: ToolRun[] = []
+  ): Promise<ToolPlan[]> {
     console.log("[agent] unified-planner: evaluating tools for user input:", userText.slice(0, 60));
+    const extra = this.#extraTools();
 
     const system =
       "You are a helpful assistant with access to tools. Analyze the user's request and decide if any tool is appropriate.\n\n" +
       "Available tools:\n" +
-      "- getWeather: Use when user asks about weather, forecast, temperature, or precipitation for a location.\n" +
-      "- getWiki: Use when user asks about a person, place, thing, concept, organization, event, or any factual information. " +
-      "  For Wikipedia, extract the main subject as the query. Examples:\n" +
-      "  * 'How many titles did Real Madrid win?' → query: 'Real Madrid'\n" +
-      "  * 'Tell me about Ada Lovelace' → query: 'Ada Lovelace'\n" +
-      "  * 'What is machine learning?' → query: 'Machine learning'\n" +
-      "- getISS: Use when user asks about the International Space Station location, position, or tracking.\n\n" +
-      "If no tool is needed, do not call any tool. Only call one tool at a time.";
+      plannerToolLines(extra) + "\n\n" +
+      "If no tool is needed, do not call any tool. " +
+      "When the request needs several independent lookups (e.g. weather in two cities), call all of those tools at once.\n" +
+      "After each tool result you may call another tool when the question needs more information " +
+      "(e.g. use the coordinates or place from one result as arguments for the next). " +
+      "Once the results answer the question, do not call any more tools.";
 
     const messages: AiChatMessage[] = [
       { role: "system", content: system },
       ...history,
       { role: "user", content: userText },
+      ...runs.flatMap((run) => observationMessages(run)),
     ];
 
     // Send all tool schemas to the model
     const payload: { messages: AiChatMessage[] } & Record<string, unknown> = { messages };
-    payload.tools = [getWeatherToolSchema, getWikiToolSchema, getISSToolSchema];
+    payload.tools = toolSchemas(extra);
     payload.temperature = 0.2;
     payload.max_tokens = 200;
 
     try {
       const ai = (this.env as EnvWithAI).AI;
-      const out = await ai.run(this.state.model || DEFAULT_MODEL, payload);
+      const out = await ai.run(model, payload);
 
       if (!out || typeof out !== "object") {
         console.log("[agent] unified-planner: no valid response from model");
-        return null;
+        return [];
       }
 
       const calls = Array.isArray((out as AiPlanResponse).tool_calls)
@@ -368,241 +1096,174 @@ export default class AIAgent extends Agent<EnvWithAI, State> {
 
       if (!calls.length) {
         console.log("[agent] unified-planner: no tool_calls in response, no tool needed");
-        return null;
+        return [];
       }
 
-      const call = calls[0];
-      const toolName = call?.function?.name;
-
-      // Make sure it's a valid tool
-      if (!toolName || !["getWeather", "getWiki", "getISS"].includes(toolName)) {
-        console.log("[agent] unified-planner: invalid or unknown tool name:", toolName);
-        return null;
+      if (calls.length > MAX_PARALLEL_CALLS) {
+        console.log("[agent] unified-planner: too many tool_calls, keeping first", MAX_PARALLEL_CALLS, "of", calls.length);
       }
 
-      const rawArgs = call?.function?.arguments;
-
-      // Log what the model decided
-      console.log("[agent] unified-planner: model decided tool:", toolName, "with args:", 
-        typeof rawArgs === "string" ? rawArgs.slice(0, 100) : JSON.stringify(rawArgs).slice(0, 100));
-
-      // Parse args and validate per tool
-      let parsedArgs: unknown = rawArgs;
-
-      if (typeof rawArgs === "string") {
-        try {
-          parsedArgs = JSON.parse(rawArgs);
-        } catch (e) {
-          console.log("[agent] unified-planner: failed to parse args JSON:", e instanceof Error ? e.message : String(e));
-          parsedArgs = {};
-        }
-      }
-
-      // Validate args per tool
-      if (toolName === "getWeather") {
-        // Weather args are flexible, getWeather handles defaults
-        return { tool: "getWeather", args: parsedArgs };
-      }
-
-      if (toolName === "getWiki") {
-        // Wiki needs a query string
-        console.log("[agent] unified-planner: getWiki selected, validating args:", JSON.stringify(parsedArgs));
-        if (parsedArgs && typeof parsedArgs === "object") {
-          const query = (parsedArgs as { query?: unknown }).query;
-          if (typeof query === "string" && query.trim()) {
-            console.log("[agent] unified-planner: valid getWiki args with query:", query.slice(0, 50));
-            return { tool: "getWiki", args: parsedArgs };
-          } else {
-            console.log("[agent] unified-planner: getWiki query field missing or invalid, query value:", query);
-          }
-        } else {
-          console.log("[agent] unified-planner: getWiki parsedArgs is not an object:", typeof parsedArgs);
-        }
-        console.log("[agent] unified-planner: getWiki selected but missing valid query, ignoring");
-        return null;
+      const plans: ToolPlan[] = [];
+      for (const call of calls.slice(0, MAX_PARALLEL_CALLS)) {
+        const plan = parseToolCall(call, extra);
+        if (plan) plans.push(plan);
       }
-
-      if (toolName === "getISS") {
-        // ISS doesn't need args
-        console.log("[agent] unified-planner: valid getISS call (no args needed)");
-        return { tool: "getISS", args: {} };
-      }
-
-      return null;
+      return plans;
     } catch (e) {
       console.log("[agent] unified-planner: exception during planning:", e instanceof Error ? e.message : String(e));
-      return null;
+      return [];
     }
   }
 
-  // AGENTIC SYNTHESIS (DISABLED)
-  // Tried letting the model generate summaries from tool results, but Llama 3.1 8B
-  // keeps hallucinating placeholders like ".°N" instead of actual values like "46.61°N"
-  // Keeping this code for when we upgrade to a better model (GPT-4, Claude, etc.)
-  
-  /* Agentic synthesis - disabled due to model hallucinations */
-  /* async #synthesizeToolResponse(
-    conn: Connection,
-    history: AiChatMessage[],
-    userText: string,
-    toolName: string,
-    toolResult: unknown
-  ): Promise<void> {
-    console.log("[agent] phase-4: synthesizing agentic response for tool:", toolName);
-    console.log("[agent] phase-4: tool result data:", JSON.stringify(toolResult).slice(0, 200));
-
-    // Convert tool result to plain text format (easier for model to parse than JSON)
-    let dataText = "";
-    
-    if (toolName === "getISS" && toolResult && typeof toolResult === "object") {
-      const iss = toolResult as IssResult;
-      if (iss.ok) {
-        dataText = 
-          `ISS Location Data:\n` +
-          `- Latitude: ${iss.lat.toFixed(2)} degrees\n` +
-          `- Longitude: ${iss.lon.toFixed(2)} degrees\n` +
-          (iss.altitude_km ? `- Altitude: ${Math.round(iss.altitude_km)} kilometers\n` : "") +
-          (iss.velocity_kmh ? `- Velocity: ${Math.round(iss.velocity_kmh)} km/h\n` : "") +
-          (iss.visibility ? `- Visibility: ${iss.visibility}\n` : "");
-      }
-    } else if (toolName === "getWeather" && toolResult && typeof toolResult === "object") {
-      const weather = toolResult as WeatherResult;
-      if (weather.ok) {
-        const loc = [weather.place.name, weather.place.region, weather.place.country].filter(Boolean).join(", ");
-        dataText = `Weather Forecast for ${loc}:\n`;
-        weather.daily.slice(0, 7).forEach((day, i) => {
-          dataText += `Day ${i + 1}: High ${day.tMax}°${weather.units.temp}, Low ${day.tMin}°${weather.units.temp}, Rain chance ${day.pop}%\n`;
-        });
-      }
-    } else if (toolName === "getWiki" && toolResult && typeof toolResult === "object") {
-      const wiki = toolResult as WikiResult;
-      if (wiki.ok) {
-        dataText = `Wikipedia Article: ${wiki.title}\n\nSummary:\n${wiki.extract || "No summary available"}`;
-      }
-    } else {
-      // Fallback to JSON if we can't parse
-      dataText = JSON.stringify(toolResult, null, 2);
-    }
-
-    console.log("[agent] phase-4: formatted data text:", dataText.slice(0, 200));
-
-    // Build a comprehensive system prompt
-    const system =
-      "You are a helpful assistant. You just received data from a tool and need to provide a natural response.\n\n" +
-      "CRITICAL: Use the EXACT numbers and text provided in the data. Do NOT use placeholders like '.' or ','.\n" +
-      "If you see 'Latitude: 46.61 degrees', say '46.61 degrees' - use the actual number.\n" +
-      "Be conversational and helpful, but always use real values from the data.";
-
-    const toolResultMessage = 
-      `Here is the data I retrieved:\n\n${dataText}\n\n` +
-      `User's question was: "${userText}"\n\n` +
-      `Please provide a helpful, natural response using the ACTUAL values from the data above.`;
-
-    const messages: AiChatMessage[] = [
-      { role: "system", content: system },
-      ...history.slice(-4), // Keep last 2 exchanges for context
-      { role: "user", content: toolResultMessage },
-    ];
-
-    console.log("[agent] phase-4: sending synthesis prompt, message length:", toolResultMessage.length);
-
-    // Stream the synthesized response
-    await this.#streamAssistant(conn, messages);
-  } */
-
-  // Deterministic summaries - these work reliably with actual values
-  // Using templates instead of model generation due to hallucination issues
-  #summarizeWeatherIntent(result: WeatherResult): string {
-    if (!result.ok) return "I couldn't fetch the weather. Please double-check the location.";
+  // Run a registered tool and stream its progress events; `callId` ties the
+  // events to one progress card when several calls run side by side
+  async #runTool(
+    conn: FrameSink,
+    tool: RegisteredTool,
+    args: ToolArgs,
+    callId: string,
+    signal: AbortSignal,
+    fresh = false
+  ): Promise<ToolResultBase> {
+    const emit = (evt: Record<string, unknown>) =>
+      conn.send({ type: "tool", tool: tool.name, callId, ...evt } as ToolEvent);
+
+    emit({ status: "started", message: `${tool.steps[0]?.label ?? "Planning"}…` });
+
+    // Cache hits are reported against whichever step the tool is on
+    let currentStep = tool.steps[0]?.key ?? "plan";
+    const cache = createToolCache(this.ctx.storage.sql, tool.name, {
+      bypass: fresh,
+      onHit: (kind, ageMs) =>
+        emit({ status: "step", step: currentStep, cached: true, message: `Using cached ${kind} (${formatAge(ageMs)} old)` }),
+    });
 
-    const { place, daily, units } = result;
-    const name = [place.name, place.region, place.country].filter(Boolean).join(", ") || "that location";
-    if (!daily.length) return `I couldn't find a daily forecast for ${name}.`;
+    const res = await tool.execute(args, {
+      step: (step, message) => {
+        currentStep = step;
+        emit({ status: "step", step, message });
+      },
+      signal,
+      cache,
+      retry: ({ attempt, of, reason }) =>
+        emit({ status: "step", step: currentStep, retry: attempt, message: `Retrying (${attempt}/${of}) after ${reason}…` }),
+    });
 
-    const days = daily.slice(0, Math.min(7, daily.length));
-    let hi = -Infinity, lo = Infinity, maxPop = -1;
-    for (const d of days) {
-      if (Number.isFinite(d.tMax) && d.tMax! > hi) hi = d.tMax!;
-      if (Number.isFinite(d.tMin) && d.tMin! < lo) lo = d.tMin!;
-      if (Number.isFinite(d.pop) && d.pop! > maxPop) maxPop = d.pop!;
+    if (signal.aborted) {
+      emit({ status: "error", message: "Stopped" });
+      return { ok: false, error: "Stopped" };
     }
-    const T = units.temp;
-    const hiR = Number.isFinite(hi) ? Math.round(hi) : null;
-    const loR = Number.isFinite(lo) ? Math.round(lo) : null;
 
-    const lines: string[] = [];
-    if (hiR !== null && loR !== null) {
-      lines.push(`In ${name}, highs reach ~${hiR}${T} and lows dip to ~${loR}${T} this week.`);
-    } else if (hiR !== null) {
-      lines.push(`In ${name}, highs reach ~${hiR}${T} this week.`);
-    } else if (loR !== null) {
-      lines.push(`In ${name}, lows dip to ~${loR}${T} this week.`);
-    } else {
-      lines.push(`In ${name}, typical seasonal temperatures this week.`);
+    if (!res.ok) {
+      emit({ status: "error", message: res.error });
+      return res;
     }
 
-    if (maxPop >= 70) {
-      lines.push(`Rain is likely (peak chance ~${Math.round(maxPop)}%) — pack rain gear (umbrella or waterproof jacket).`);
-    } else if (maxPop >= 40) {
-      lines.push(`Some showers possible (peak ~${Math.round(maxPop)}%) — consider a light rain jacket.`);
-    } else {
-      lines.push(`Low rain risk overall.`);
-    }
+    emit({ status: "done", result: res });
+    return res;
+  }
 
-    if (hiR !== null && hiR >= 30) {
-      lines.push(`It’ll feel hot — dress light and use sunscreen.`);
-    } else if (hiR !== null && hiR >= 24 && maxPop < 40) {
-      lines.push(`Warm and mostly dry — shorts and light layers are fine.`);
-    } else if (loR !== null && loR <= 5) {
-      lines.push(`Chilly at times — bring warm layers (and gloves/hat if you get cold easily).`);
-    } else if (hiR !== null && loR !== null) {
-      const range = hiR - loR;
-      if (range >= 10) lines.push(`Temps swing through the day — pack layers.`);
-      else lines.push(`Mild, steady temps — simple layers should be fine.`);
+  // AGENTIC SYNTHESIS (VERIFIED)
+  // Letting the model phrase tool results answers the actual question, but smaller
+  // models hallucinated placeholders like ".°N" instead of "46.61°N". So the draft
+  // is only used if verifyGrounded() finds every number/name in the tool data;
+  // otherwise retry once with a stricter prompt, then fall back to the templates.
+  async #answerFromTools(
+    history: AiChatMessage[],
+    userText: string,
+    runs: ToolRun[],
+    signal?: AbortSignal,
+    usage?: TokenUsage
+  ): Promise<string | null> {
+    const template = runs
+      .map(({ tool, result }) => (result.ok ? tool.summarize(result) : failureText(tool, result)))
+      .join("\n\n");
+
+    const model = this.#chatModel();
+    const mode = synthesisModeFor(model);
+    if (mode === "template" || !runs.some((r) => r.result.ok)) {
+      console.log("[agent] phase-4: using deterministic summaries", { mode, tools: runs.map((r) => r.tool.name) });
+      return template;
     }
 
-    if (loR !== null && loR <= 0 && maxPop >= 50) {
-      lines.push(`Freezing conditions possible with precipitation — use winter shoes/boots.`);
+    const facts = runs.map(({ tool, result }) => tool.facts(result)).join("\n\n");
+    // Raw JSON too, so unrounded values and fields the facts text skips still count
+    const sources = [facts, userText, ...runs.map((r) => JSON.stringify(r.result))];
+
+    let unsupported: string[] | null = null;
+    for (let attempt = 1; attempt <= 2; attempt++) {
+      const { system, prompt } = synthesisPrompt(userText, facts, unsupported ? { unsupported } : undefined);
+      const draft = await this.#generate([
+        { role: "system", content: system },
+        ...history.slice(-4), // Keep last 2 exchanges for context
+        { role: "user", content: prompt },
+      ], usage);
+      if (signal?.aborted) return null;
+      if (!draft) continue;
+
+      const check = verifyGrounded(draft, sources);
+      if (check.ok) {
+        console.log("[agent] phase-4: synthesized answer passed verification", { attempt });
+        return draft;
+      }
+      unsupported = check.unsupported;
+      console.log("[agent] phase-4: synthesized answer failed verification", { attempt, unsupported });
     }
 
-    return lines.join(" ");
+    console.log("[agent] phase-4: falling back to deterministic summaries");
+    return template;
   }
 
-  #summarizeWiki(result: WikiResult): string {
-    if (!result.ok) return `I couldn't fetch Wikipedia: ${result.error}`;
-    const title = result.title || "Summary";
-    const text = (result.extract || "").trim();
-    if (!text) return `${title} — summary unavailable.`;
-    const snippet = text.length > 480 ? text.slice(0, 480).trimEnd() + "…" : text;
-    return `${title} — ${snippet}`;
+  // Non-streaming completion - used where the text must be checked before sending.
+  // Token counts are added to `usage` when the model reports them.
+  async #generate(messages: AiChatMessage[], usage?: TokenUsage): Promise<string | null> {
+    try {
+      const ai = (this.env as EnvWithAI).AI;
+      const out = await ai.run(this.#chatModel(), { messages, temperature: 0.3, max_tokens: 400 });
+      if (typeof out === "string") return out.trim() || null;
+      if (usage) addUsage(usage, (out as { usage?: unknown } | null)?.usage);
+      const text = (out as { response?: unknown } | null)?.response;
+      return typeof text === "string" && text.trim() ? text.trim() : null;
+    } catch (e) {
+      console.log("[agent] generate error:", e instanceof Error ? e.message : String(e));
+      return null;
+    }
   }
 
-  #summarizeISS(result: IssResult): string {
-    if (!result.ok) return `I couldn't fetch the ISS position: ${result.error}`;
-    const lat = result.lat.toFixed(2);
-    const lon = result.lon.toFixed(2);
-    const alt = typeof result.altitude_km === "number" ? `${Math.round(result.altitude_km)} km` : "unknown";
-    const vel = typeof result.velocity_kmh === "number" ? `${Math.round(result.velocity_kmh)} km/h` : "unknown";
-    const vis = result.visibility ? result.visibility : "n/a";
-
-    return `The ISS is currently near ${lat}°, ${lon}° at ~${alt}, moving ~${vel} (visibility: ${vis}).`;
-  }
+  // Stream assistant response; a stop cancels the reader and keeps the partial text
+  // Returns the saved text ("" if nothing was produced)
+  async #streamAssistant(conn: FrameSink, threadId: string, messages: AiChatMessage[], signal: AbortSignal): Promise<string> {
+    const model = this.#chatModel();
+    const started = Date.now();
+    const usage: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+    const meta = (): RowMeta => ({
+      model,
+      latencyMs: Date.now() - started,
+      usage: usage.promptTokens || usage.completionTokens ? usage : undefined,
+    });
 
-  // Stream assistant response
-  async #streamAssistant(conn: Connection, messages: AiChatMessage[]) {
     let full = "";
     try {
       const ai = (this.env as EnvWithAI).AI;
-      const out = await ai.run(this.state.model || DEFAULT_MODEL, { messages, stream: true });
+      // Models without streaming answer in one piece, sent as a single delta
+      const streaming = findModel(model)?.streaming ?? true;
+      const out = await ai.run(model, { messages, stream: streaming });
 
       const stream = isReadableStream(out) ? out : null;
       if (!stream) {
-        const text = typeof out === "string" ? out : "[no response]";
-        await this.#saveAssistant(conn, text);
-        return;
+        const response = typeof out === "string" ? out : (out as { response?: unknown } | null)?.response;
+        const text = typeof response === "string" && response ? response : "[no response]";
+        if (out && typeof out === "object") addUsage(usage, (out as { usage?: unknown }).usage);
+        conn.send({ type: "delta", text });
+        await this.#saveMessage(threadId, "assistant", text, meta());
+        return text;
       }
 
       const reader = stream.getReader();
+      const cancel = () => { reader.cancel().catch(() => {}); };
+      if (signal.aborted) cancel();
+      else signal.addEventListener("abort", cancel, { once: true });
+
       const decoder = new TextDecoder();
       let buffer = "";
 
@@ -622,48 +1283,322 @@ export default class AIAgent extends Agent<EnvWithAI, State> {
             if (!payload || payload === "[DONE]") continue;
 
             try {
-              const json = JSON.parse(payload) as { response?: string };
+              const json = JSON.parse(payload) as { response?: string; usage?: unknown };
+              // The last event carries the token counts on models that report them
+              addUsage(usage, json?.usage);
               const piece = typeof json?.response === "string" ? json.response : "";
               if (piece) {
                 full += piece;
-                conn.send(JSON.stringify({ type: "delta", text: piece }));
+                conn.send({ type: "delta", text: piece });
               }
             } catch {
               full += payload;
-              conn.send(JSON.stringify({ type: "delta", text: payload }));
+              conn.send({ type: "delta", text: payload });
             }
           }
         }
       }
+      signal.removeEventListener("abort", cancel);
     } catch (e) {
       const msg = e instanceof Error ? e.message : String(e);
       console.log("[agent] stream error:", msg);
-      full = full || "_(stream error)_";
+      if (!signal.aborted) full = full || "_(stream error)_";
     } finally {
-      conn.send(JSON.stringify({ type: "done" }));
+      if (signal.aborted) {
+        // Mark the partial reply so it reads as cut off, in the UI and after reload
+        if (full) {
+          full += INTERRUPTED_NOTE;
+          conn.send({ type: "delta", text: INTERRUPTED_NOTE });
+        }
+        conn.send({ type: "stopped" });
+      } else {
+        conn.send({ type: "done" });
+      }
     }
 
-    await this.#saveAssistant(conn, full);
+    if (full) await this.#saveMessage(threadId, "assistant", full, meta());
+    return full;
   }
 
   // ---------------------- Persistence helpers -------------------------------
-  async #saveAssistant(_conn: Connection, text: string) {
+  // Appends below the thread's head and moves the head; returns the new row id
+  async #saveMessage(threadId: string, role: Msg["role"], content: string, meta: RowMeta = {}): Promise<number> {
     const ts = Date.now();
-    await this.sql`INSERT INTO messages (role, content, ts) VALUES ('assistant', ${text}, ${ts})`;
-    this.setState({
-      ...this.state,
-      messages: [...this.state.messages, { role: "assistant", content: text, ts }],
-      expiresAt: Date.now() + DAY,
+    const [thread] = await this.sql<{ head_id: number | null }>`SELECT head_id FROM threads WHERE id = ${threadId}`;
+    const parentId = thread?.head_id ?? null;
+    const [row] = await this.sql<{ id: number }>`
+      INSERT INTO messages (thread_id, parent_id, role, content, ts,
+        tool_name, tool_ok, model, latency_ms, prompt_tokens, completion_tokens)
+      VALUES (${threadId}, ${parentId}, ${role}, ${content}, ${ts},
+        ${meta.tool ?? null}, ${meta.toolOk === undefined ? null : Number(meta.toolOk)}, ${meta.model ?? null},
+        ${meta.latencyMs ?? null}, ${meta.usage?.promptTokens ?? null}, ${meta.usage?.completionTokens ?? null})
+      RETURNING id`;
+    await this.sql`UPDATE threads SET head_id = ${row.id}, updated_at = ${ts} WHERE id = ${threadId}`;
+    // A turn keeps writing to its own thread after a switch; only mirror the active one
+    if (this.state.threadId === threadId) {
+      this.setState({
+        ...this.state,
+        messages: [...this.state.messages, { id: row.id, role, content, ts, ...(meta.tool ? { tool: meta.tool } : {}) }],
+        expiresAt: Date.now() + DAY,
+      });
+    }
+    return row.id;
+  }
+
+  // Token counts on the rows saved after the turn's user message
+  async #turnUsage(threadId: string, userId: number): Promise<TokenUsage> {
+    const [row] = await this.sql<{ prompt: number | null; completion: number | null }>`
+      SELECT SUM(prompt_tokens) AS prompt, SUM(completion_tokens) AS completion
+      FROM messages WHERE thread_id = ${threadId} AND id > ${userId}`;
+    return { promptTokens: row?.prompt ?? 0, completionTokens: row?.completion ?? 0 };
+  }
+
+  // Every run is kept, failures too (`tool_ok` = 0, the error in the result JSON)
+  async #saveToolRun(threadId: string, run: ToolRun) {
+    await this.#saveMessage(threadId, "tool", JSON.stringify(run.result), {
+      tool: run.tool.name,
+      toolOk: run.result.ok,
+      latencyMs: run.latencyMs,
     });
   }
 
-  async #schema() {
+  async #threadRows(threadId: string): Promise<MsgRow[]> {
+    return await this.sql<MsgRow>`
+      SELECT id, parent_id AS parentId, role, content, ts, tool_name AS tool
+      FROM messages WHERE thread_id = ${threadId} ORDER BY id ASC`;
+  }
+
+  // Moves the thread's head. The running summary only covers one branch, so it is
+  // dropped when the new branch forks at or before what it summarized.
+  async #setHead(threadId: string, headId: number | null, forkTs: number) {
+    await this.sql`UPDATE threads SET head_id = ${headId} WHERE id = ${threadId}`;
     await this.sql`
-      CREATE TABLE IF NOT EXISTS messages (
-        id INTEGER PRIMARY KEY,
-        role    TEXT    NOT NULL,
-        content TEXT    NOT NULL,
-        ts      INTEGER NOT NULL
-      )`;
+      UPDATE threads SET summary = NULL, summary_through = NULL
+      WHERE id = ${threadId} AND summary_through >= ${forkTs}`;
+  }
+
+  // ------------------------- Thread helpers ---------------------------------
+  async #listThreads(): Promise<ThreadInfo[]> {
+    return await this.sql<ThreadInfo>`
+      SELECT id, title, created_at AS createdAt, updated_at AS updatedAt
+      FROM threads ORDER BY updated_at DESC`;
+  }
+
+  #sendModels(conn: FrameSink) {
+    conn.send({ type: "models", models: modelCatalog(), current: this.state.model });
+  }
+
+  async #sendThreads(conn: FrameSink) {
+    const threads = await this.#listThreads();
+    conn.send({ type: "threads", threads, activeId: this.state.threadId });
+  }
+
+  async #createThread(title = DEFAULT_THREAD_TITLE): Promise<ThreadInfo> {
+    const now = Date.now();
+    const thread: ThreadInfo = { id: crypto.randomUUID(), title, createdAt: now, updatedAt: now };
+    await this.sql`INSERT INTO threads (id, title, created_at, updated_at) VALUES (${thread.id}, ${title}, ${now}, ${now})`;
+    console.log("[agent] thread created", { id: thread.id });
+    return thread;
+  }
+
+  // A thread's active branch and running summary, as state holds them for the active thread
+  async #readThread(threadId: string): Promise<Pick<State, "messages" | "summary">> {
+    const [row] = await this.sql<{ head_id: number | null; summary: string | null; summary_through: number | null }>`
+      SELECT head_id, summary, summary_through FROM threads WHERE id = ${threadId}`;
+    return {
+      messages: activeBranch(await this.#threadRows(threadId), row?.head_id ?? null),
+      summary: row?.summary && row.summary_through != null ? { text: row.summary, throughTs: row.summary_through } : null,
+    };
+  }
+
+  async #loadThread(threadId: string) {
+    this.setState({ ...this.state, threadId, ...(await this.#readThread(threadId)), expiresAt: Date.now() + DAY });
+  }
+
+  // The thread `apiThread` HTTP turns run in; a new one when asked for or when it's gone
+  async #apiThread(fresh: boolean): Promise<string> {
+    const saved = await this.ctx.storage.get<string>(API_THREAD_KEY);
+    if (!fresh && saved && (await this.#listThreads()).some((t) => t.id === saved)) return saved;
+    const { id } = await this.#createThread();
+    await this.ctx.storage.put(API_THREAD_KEY, id);
+    return id;
+  }
+
+  // Only called behind #turnLock: stream frames carry no thread id, so no turn may be running
+  async #switchThread(conn: FrameSink, threadId: string) {
+    await this.#loadThread(threadId);
+    console.log("[agent] thread switched", { threadId });
+    conn.send({ type: "thread", state: this.state });
+    await this.#sendThreads(conn);
+  }
+
+  // Name a fresh thread after its first exchange (model title, else the question)
+  async #maybeTitleThread(conn: FrameSink, threadId: string, prior: Msg[], userText: string, reply: string) {
+    if (prior.some((m) => m.role === "user")) return;
+    const [row] = await this.sql<{ title: string }>`SELECT title FROM threads WHERE id = ${threadId}`;
+    if (!row || row.title !== DEFAULT_THREAD_TITLE) return;
+
+    const generated = await this.#generate([
+      {
+        role: "system",
+        content: "Write a short title (3-6 words) for this conversation. Reply with the title only, no quotes or punctuation at the end.",
+      },
+      { role: "user", content: `User: ${userText.slice(0, 500)}\n\nAssistant: ${reply.slice(0, 500)}` },
+    ]);
+    const cleaned = (generated || "").split("\n")[0].replace(/^["'“]+|["'”.]+$/g, "").trim();
+    const title = (cleaned || userText).slice(0, 60);
+
+    await this.sql`UPDATE threads SET title = ${title} WHERE id = ${threadId}`;
+    await this.#sendThreads(conn);
+  }
+
+  // MCP servers: deployment ones from MCP_SERVERS, session ones added by a client.
+  // The SDK persists both and reconnects them on start; we only add what's missing.
+
+  #mcpTools(): RegisteredTool[] {
+    const { servers } = this.getMcpServers();
+    return mcpTools(this.mcp, Object.fromEntries(Object.entries(servers).map(([id, s]) => [id, s.name])));
+  }
+
+  #mcpServers(): McpServerInfo[] {
+    const deployment = new Set(parseMcpServers(this.env.MCP_SERVERS).map((s) => s.url));
+    const { servers, tools } = this.getMcpServers();
+    return Object.entries(servers).map(([id, s]) => ({
+      id,
+      name: s.name,
+      url: s.server_url,
+      state: s.state,
+      scope: deployment.has(s.server_url) ? "deployment" : "session",
+      authUrl: s.auth_url ?? undefined,
+      tools: tools.filter((t) => t.serverId === id).map((t) => mcpToolName(s.name, t.name)),
+    }));
+  }
+
+  async #addMcpServer(server: McpServerConfig) {
+    const existing = this.#mcpServers();
+    if (existing.some((s) => s.url === server.url)) return;
+    // Tools are namespaced by the slugged name ("My Server" and "my-server" both give my_server)
+    const namespace = mcpNamespace(server.name);
+    if (!namespace) throw new Error("the name needs at least one letter or digit");
+    const clash = existing.find((s) => mcpNamespace(s.name) === namespace);
+    if (clash) throw new Error(`"${server.name}" clashes with the server named "${clash.name}"; pick another name`);
+
+    const options = server.headers ? { transport: { headers: server.headers } } : undefined;
+    const { id, authUrl } = await this.addMcpServer(server.name, server.url, this.#origin ?? undefined, "agents", options);
+    console.log("[agent] mcp server added", { id, name: server.name, url: server.url, needsAuth: !!authUrl });
+  }
+
+  async #connectDeploymentServers() {
+    for (const server of parseMcpServers(this.env.MCP_SERVERS)) {
+      try {
+        await this.#addMcpServer(server);
+      } catch (e) {
+        console.log("[agent] deployment mcp server failed", { name: server.name, error: e instanceof Error ? e.message : String(e) });
+      }
+    }
+    this.#broadcastMcp();
+  }
+
+  // Server list plus a fresh manifest, so progress cards know newly discovered tools
+  #broadcastMcp() {
+    this.broadcast(encodeFrame({ type: "mcp", servers: this.#mcpServers() }));
+    this.#broadcastTools();
+  }
+
+  // OpenAPI tools: documents registered by an admin, stored in `openapi_specs`
+
+  #apiTools(): RegisteredTool[] {
+    return apiTools(this.#loadApiSpecs(), (name) => this.#apiSecret(name));
+  }
+
+  #loadApiSpecs(): ApiSpec[] {
+    if (this.#apiSpecs) return this.#apiSpecs;
+    const rows = this.sql<{ name: string; document: string; base_url: string | null; operations: string | null; headers: string | null }>`
+      SELECT name, document, base_url, operations, headers FROM openapi_specs ORDER BY created_at`;
+    this.#apiSpecs = rows.flatMap((row) => {
+      try {
+        return [
+          parseApiSpec({
+            name: row.name,
+            document: row.document,
+            baseUrl: row.base_url ?? undefined,
+            operations: row.operations ? (JSON.parse(row.operations) as string[]) : undefined,
+            headers: row.headers ? (JSON.parse(row.headers) as Record<string, string>) : undefined,
+          }),
+        ];
+      } catch (e) {
+        console.log("[agent] stored openapi document unusable", { name: row.name, error: e instanceof Error ? e.message : String(e) });
+        return [];
+      }
+    });
+    return this.#apiSpecs;
+  }
+
+  // {{secret:NAME}} in API headers resolves only for names listed in OPENAPI_SECRETS
+  #apiSecret(name: string): string | undefined {
+    const allowed = (this.env.OPENAPI_SECRETS ?? "").split(",").map((s) => s.trim());
+    const value: unknown = allowed.includes(name) ? Reflect.get(this.env, name) : undefined;
+    return typeof value === "string" ? value : undefined;
+  }
+
+  #isAdmin(token: unknown): boolean {
+    const expected = this.env.ADMIN_TOKEN;
+    if (!expected || typeof token !== "string") return false;
+    // Constant-time compare, so response timing doesn't leak a matching prefix
+    const a = new TextEncoder().encode(token);
+    const b = new TextEncoder().encode(expected);
+    let diff = a.length ^ b.length;
+    for (let i = 0; i < b.length; i++) diff |= (a[i] ?? 0) ^ b[i];
+    return diff === 0;
+  }
+
+  // Throws ApiSpecError for documents that can't be used (the message goes back to the admin)
+  async #registerApi(cfg: ApiSpecConfig): Promise<ApiSpecInfo> {
+    const spec = parseApiSpec(cfg);
+    // Unknown or disallowed secrets fail now rather than on the first call
+    injectSecrets(spec.headers, (name) => this.#apiSecret(name));
+
+    const operations = cfg.operations?.length ? JSON.stringify(cfg.operations) : null;
+    const headers = cfg.headers ? JSON.stringify(cfg.headers) : null;
+    await this.sql`
+      INSERT OR REPLACE INTO openapi_specs (name, document, base_url, operations, headers, created_at)
+      VALUES (${cfg.name}, ${cfg.document}, ${cfg.baseUrl ?? null}, ${operations}, ${headers}, ${Date.now()})`;
+    this.#apiSpecs = null;
+    console.log("[agent] openapi document registered", { name: spec.name, operations: spec.operations.length });
+    this.#broadcastApis();
+    return apiSpecInfo(spec);
+  }
+
+  async #removeApi(name: string): Promise<boolean> {
+    const [row] = await this.sql<{ name: string }>`DELETE FROM openapi_specs WHERE name = ${name} RETURNING name`;
+    this.#apiSpecs = null;
+    if (row) this.#broadcastApis();
+    return !!row;
+  }
+
+  #apiInfo(): ApiSpecInfo[] {
+    return this.#loadApiSpecs().map(apiSpecInfo);
+  }
+
+  #broadcastApis() {
+    this.broadcast(encodeFrame({ type: "openapi", apis: this.#apiInfo() }));
+    this.#broadcastTools();
+  }
+
+  // Tools beyond the compiled-in ones, for the planner, manifests and tool.run
+  #extraTools(): RegisteredTool[] {
+    return [...this.#mcpTools(), ...this.#apiTools()];
+  }
+
+  #broadcastTools() {
+    this.broadcast(encodeFrame({ type: "tools", tools: toolManifest(this.#extraTools()) }));
+  }
+
+  // Schema is versioned in worker/migrations.ts; checked once per DO instance
+  #migrate() {
+    if (this.#migrated) return;
+    const ran = migrate(this.ctx.storage);
+    if (ran.length) console.log("[agent] migrations applied", { versions: ran });
+    this.#migrated = true;
   }
 }
@@ -0,0 +1,179 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { handleSessionRequest, issueSessionToken, jwksProvider, requestSession, verifySessionToken } from "./auth";
+
+const DAY_MS = 86_400_000;
+const NOW = Date.UTC(2025, 0, 1);
+const env = { SESSION_SECRET: "test-secret" };
+
+const encoder = new TextEncoder();
+const b64url = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+const b64json = (value: unknown) => b64url(encoder.encode(JSON.stringify(value)));
+
+const sessionPost = (headers: Record<string, string> = {}) => new Request("https://app.example/api/session", { method: "POST", headers });
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("session tokens", () => {
+  it("verify what they sign", async () => {
+    const { token, expiresAt } = await issueSessionToken(env, "s-1", null);
+    expect(expiresAt).toBe(NOW + 30 * DAY_MS);
+    expect(await verifySessionToken(env, token)).toEqual({ sid: "s-1", sub: null, exp: expiresAt / 1000, authAt: NOW / 1000 });
+  });
+
+  it("don't verify when tampered with or signed with another secret", async () => {
+    const { token } = await issueSessionToken(env, "s-1", null);
+    const [, signature] = token.split(".");
+    const forged = `${b64json({ sid: "s-2", sub: null, exp: NOW / 1000 + 60, authAt: NOW / 1000 })}.${signature}`;
+    expect(await verifySessionToken(env, forged)).toBeNull();
+    expect(await verifySessionToken({ SESSION_SECRET: "rotated" }, token)).toBeNull();
+    expect(await verifySessionToken(env, `${token}.extra`)).toBeNull();
+    expect(await verifySessionToken({}, token)).toBeNull();
+  });
+
+  it("expire", async () => {
+    const { token, expiresAt } = await issueSessionToken(env, "s-1", null);
+    vi.setSystemTime(expiresAt - 1000);
+    expect(await verifySessionToken(env, token)).not.toBeNull();
+    vi.setSystemTime(expiresAt + 1000);
+    expect(await verifySessionToken(env, token)).toBeNull();
+  });
+
+  it("never outlive the session's maximum age", async () => {
+    const authAt = (NOW - 80 * DAY_MS) / 1000;
+    const { expiresAt } = await issueSessionToken(env, "s-1", null, authAt);
+    expect(expiresAt).toBe(NOW + 10 * DAY_MS);
+  });
+
+  it("are read from the Authorization header or ?token=", async () => {
+    const { token } = await issueSessionToken(env, "s-1", null);
+    const viaHeader = new Request("https://app.example/v1/models", { headers: { Authorization: `Bearer ${token}` } });
+    const viaQuery = new Request(`https://app.example/agents/ai-agent/s-1?token=${token}`);
+    expect((await requestSession(viaHeader, env))?.sid).toBe("s-1");
+    expect((await requestSession(viaQuery, env))?.sid).toBe("s-1");
+    expect(await requestSession(new Request("https://app.example/"), env)).toBeNull();
+  });
+});
+
+describe("POST /api/session", () => {
+  it("opens an anonymous session", async () => {
+    const res = await handleSessionRequest(sessionPost(), env);
+    const body = (await res.json()) as { sessionId: string; token: string };
+    expect(res.status).toBe(200);
+    expect((await verifySessionToken(env, body.token))?.sid).toBe(body.sessionId);
+  });
+
+  it("renews a token for the same session, keeping when it was opened", async () => {
+    const { token } = await issueSessionToken(env, "s-1", null);
+    vi.setSystemTime(NOW + 20 * DAY_MS);
+    const res = await handleSessionRequest(sessionPost({ Authorization: `Bearer ${token}` }), env);
+    const body = (await res.json()) as { sessionId: string; token: string; expiresAt: number };
+    expect(body.sessionId).toBe("s-1");
+    expect(body.expiresAt).toBe(NOW + 50 * DAY_MS);
+    expect((await verifySessionToken(env, body.token))?.authAt).toBe(NOW / 1000);
+  });
+
+  it("doesn't turn a stale token into a new session", async () => {
+    const { token, expiresAt } = await issueSessionToken(env, "s-1", null, (NOW - 89 * DAY_MS) / 1000);
+    vi.setSystemTime(expiresAt + 1000);
+    const res = await handleSessionRequest(sessionPost({ Authorization: `Bearer ${token}` }), env);
+    expect(res.status).toBe(401);
+  });
+
+  it("needs SESSION_SECRET", async () => {
+    expect((await handleSessionRequest(sessionPost(), {})).status).toBe(503);
+  });
+});
+
+describe("jwksProvider", () => {
+  type Signer = { kid?: string; jwk: JsonWebKey; sign(claims: Record<string, unknown>, header?: Record<string, unknown>): Promise<string> };
+
+  async function signer(kid?: string): Promise<Signer> {
+    const pair = (await crypto.subtle.generateKey({ name: "ECDSA", namedCurve: "P-256" }, true, ["sign", "verify"])) as CryptoKeyPair;
+    const jwk = { ...(await crypto.subtle.exportKey("jwk", pair.publicKey)), kid };
+    return {
+      kid,
+      jwk,
+      async sign(claims, header = {}) {
+        const signingInput = `${b64json({ alg: "ES256", kid, ...header })}.${b64json(claims)}`;
+        const sig = await crypto.subtle.sign({ name: "ECDSA", hash: "SHA-256" }, pair.privateKey, encoder.encode(signingInput));
+        return `${signingInput}.${b64url(new Uint8Array(sig))}`;
+      },
+    };
+  }
+
+  // Serves `keys` (read on every fetch, so a test can rotate them) and counts the fetches
+  function serveJwks(keys: () => JsonWebKey[]) {
+    const fetch = vi.fn(async () => Response.json({ keys: keys() }));
+    vi.stubGlobal("fetch", fetch);
+    return fetch;
+  }
+
+  const claims = (extra: Record<string, unknown> = {}) => ({ sub: "user-1", iss: "https://idp.example", exp: NOW / 1000 + 300, ...extra });
+  const config = { jwksUrl: "https://idp.example/jwks", issuer: "https://idp.example", audience: "chat" };
+
+  it("verifies a token signed by the key its kid names", async () => {
+    const [a, b] = await Promise.all([signer("a"), signer("b")]);
+    serveJwks(() => [a.jwk, b.jwk]);
+    const idp = jwksProvider(config);
+    expect(await idp.verify(await b.sign(claims({ aud: ["other", "chat"] })))).toEqual({ issuer: "https://idp.example", subject: "user-1" });
+  });
+
+  it("doesn't accept a token signed by another key under the same kid", async () => {
+    const [a, impostor] = await Promise.all([signer("a"), signer("a")]);
+    serveJwks(() => [a.jwk]);
+    expect(await jwksProvider(config).verify(await impostor.sign(claims({ aud: "chat" })))).toBeNull();
+  });
+
+  it("matches a token without a kid only against a single-key JWKS", async () => {
+    const [only, other] = await Promise.all([signer(), signer()]);
+    const keys = [only.jwk];
+    serveJwks(() => keys);
+    const token = await only.sign(claims({ aud: "chat" }));
+    expect(await jwksProvider(config).verify(token)).not.toBeNull();
+    keys.push(other.jwk);
+    expect(await jwksProvider(config).verify(token)).toBeNull();
+  });
+
+  it("skips keys pinned to another algorithm", async () => {
+    const a = await signer("a");
+    serveJwks(() => [{ ...a.jwk, alg: "ES384" }]);
+    expect(await jwksProvider(config).verify(await a.sign(claims({ aud: "chat" })))).toBeNull();
+  });
+
+  it("refetches the keys for an unknown kid, at most once a minute", async () => {
+    const [a, b] = await Promise.all([signer("a"), signer("b")]);
+    const keys = [a.jwk];
+    const fetch = serveJwks(() => keys);
+    const idp = jwksProvider(config);
+    const tokenB = await b.sign(claims({ aud: "chat" }));
+
+    expect(await idp.verify(await a.sign(claims({ aud: "chat" })))).not.toBeNull();
+    keys.push(b.jwk);
+    expect(await idp.verify(tokenB)).toBeNull();
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(NOW + 61_000);
+    expect(await idp.verify(tokenB)).not.toBeNull();
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("checks expiry, issuer, audience and subject", async () => {
+    const a = await signer("a");
+    serveJwks(() => [a.jwk]);
+    const idp = jwksProvider(config);
+    expect(await idp.verify(await a.sign(claims({ aud: "chat", exp: NOW / 1000 - 120 })))).toBeNull();
+    expect(await idp.verify(await a.sign(claims({ aud: "chat", nbf: NOW / 1000 + 120 })))).toBeNull();
+    expect(await idp.verify(await a.sign(claims({ aud: "chat", iss: "https://evil.example" })))).toBeNull();
+    expect(await idp.verify(await a.sign(claims({ aud: "other" })))).toBeNull();
+    expect(await idp.verify(await a.sign(claims({ aud: "chat", sub: "" })))).toBeNull();
+    expect(await idp.verify(await a.sign(claims({ aud: "chat" }), { alg: "HS256" }))).toBeNull();
+  });
+});
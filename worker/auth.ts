@@ -0,0 +1,254 @@
+// Session auth: the session id (the agent instance name) is only reachable with a token
+// signed by this Worker. `POST /api/session` issues one - for a new anonymous session, for
+// a signed-in user when an identity provider is configured, or as a renewal of a valid token.
+// Renewals carry the original sign-in (or creation) time forward and stop after SESSION_MAX_AGE_MS.
+// Tokens are `<payload>.<signature>` in base64url, HMAC-SHA256 with SESSION_SECRET.
+import { SESSION_PATTERN } from "./protocol";
+
+export type AuthEnv = Pick<Env, "SESSION_SECRET" | "AUTH_JWKS_URL" | "AUTH_ISSUER" | "AUTH_AUDIENCE">;
+
+/** What a verified session token says; `authAt` is when the session was opened or signed into */
+export type SessionClaims = { sid: string; sub: string | null; exp: number; authAt: number };
+
+/** A signed-in user, from an identity provider */
+export type Identity = { issuer: string; subject: string };
+
+/** Turns a credential (e.g. a JWT) into an identity; null if it doesn't verify */
+export type IdentityProvider = { verify(credential: string): Promise<Identity | null> };
+
+const TOKEN_TTL_MS = 30 * 86_400_000;
+// No renewal past this long after `authAt`: sign in again, or start a new anonymous session
+const SESSION_MAX_AGE_MS = 90 * 86_400_000;
+const CLOCK_SKEW_S = 60;
+const JWKS_TTL_MS = 10 * 60_000;
+// An unknown `kid` refetches the keys (rotation), at most this often
+const JWKS_REFETCH_MS = 60_000;
+
+const encoder = new TextEncoder();
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } });
+
+function base64url(bytes: Uint8Array): string {
+  let s = "";
+  for (const b of bytes) s += String.fromCharCode(b);
+  return btoa(s).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64url(s: string): Uint8Array<ArrayBuffer> | null {
+  try {
+    const bin = atob(s.replace(/-/g, "+").replace(/_/g, "/"));
+    return Uint8Array.from(bin, (c) => c.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+function decodeJson(s: string): Record<string, unknown> | null {
+  const bytes = fromBase64url(s);
+  if (!bytes) return null;
+  try {
+    const value: unknown = JSON.parse(new TextDecoder().decode(bytes));
+    return value && typeof value === "object" ? (value as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+/* ------------------------------ session tokens ------------------------------ */
+
+let hmacKey: { secret: string; key: Promise<CryptoKey> } | null = null;
+
+function signingKey(secret: string): Promise<CryptoKey> {
+  if (hmacKey?.secret !== secret) {
+    const key = crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign", "verify"]);
+    hmacKey = { secret, key };
+  }
+  return hmacKey.key;
+}
+
+export async function issueSessionToken(
+  env: AuthEnv,
+  sid: string,
+  sub: string | null,
+  authAt = Math.floor(Date.now() / 1000)
+): Promise<{ token: string; expiresAt: number }> {
+  if (!env.SESSION_SECRET) throw new Error("SESSION_SECRET is not set");
+  const expiresAt = Math.min(Date.now() + TOKEN_TTL_MS, authAt * 1000 + SESSION_MAX_AGE_MS);
+  const claims: SessionClaims = { sid, sub, exp: Math.floor(expiresAt / 1000), authAt };
+  const payload = base64url(encoder.encode(JSON.stringify(claims)));
+  const signature = await crypto.subtle.sign("HMAC", await signingKey(env.SESSION_SECRET), encoder.encode(payload));
+  return { token: `${payload}.${base64url(new Uint8Array(signature))}`, expiresAt };
+}
+
+/** Claims of a token this Worker signed that hasn't expired; null otherwise */
+export async function verifySessionToken(env: AuthEnv, token: string | null): Promise<SessionClaims | null> {
+  if (!env.SESSION_SECRET || !token) return null;
+  const [payload, sig, extra] = token.split(".");
+  const signature = sig ? fromBase64url(sig) : null;
+  if (!payload || !signature || extra !== undefined) return null;
+
+  const ok = await crypto.subtle.verify("HMAC", await signingKey(env.SESSION_SECRET), signature, encoder.encode(payload));
+  const claims = ok ? decodeJson(payload) : null;
+  if (!claims || typeof claims.sid !== "string" || !SESSION_PATTERN.test(claims.sid) || typeof claims.exp !== "number") return null;
+  if (claims.exp * 1000 < Date.now()) return null;
+  // Tokens from before `authAt` count from when they were issued
+  const authAt = typeof claims.authAt === "number" ? claims.authAt : claims.exp - TOKEN_TTL_MS / 1000;
+  return { sid: claims.sid, sub: typeof claims.sub === "string" ? claims.sub : null, exp: claims.exp, authAt };
+}
+
+function bearerToken(request: Request): string | null {
+  return request.headers.get("Authorization")?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim() || null;
+}
+
+/**
+ * Claims of the request's session token: `Authorization: Bearer`, or `?token=` (browsers
+ * can't set headers on a WebSocket, and the OpenAPI admin routes use `Authorization` for the
+ * admin token). With an identity provider, anonymous tokens don't count.
+ */
+export async function requestSession(request: Request, env: AuthEnv): Promise<SessionClaims | null> {
+  const claims =
+    (await verifySessionToken(env, bearerToken(request))) ??
+    (await verifySessionToken(env, new URL(request.url).searchParams.get("token")));
+  return claims && (claims.sub || !identityProvider(env)) ? claims : null;
+}
+
+/** Null if the request carries a token for `sid`, else the 401/403 to answer with */
+export async function authorizeSession(request: Request, env: AuthEnv, sid: string): Promise<Response | null> {
+  const claims = await requestSession(request, env);
+  if (!claims) return json({ error: "A session token is required (POST /api/session)" }, 401);
+  if (claims.sid !== sid) return json({ error: "The token belongs to another session" }, 403);
+  return null;
+}
+
+/* ------------------------------ identity (JWKS) ----------------------------- */
+
+type Jwk = JsonWebKey & { kid?: string; alg?: string };
+
+type JwsAlgorithm = { kty: string; import: RsaHashedImportParams | EcKeyImportParams; verify: AlgorithmIdentifier | EcdsaParams };
+
+const ALGORITHMS: Record<string, JwsAlgorithm> = {
+  RS256: { kty: "RSA", import: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" }, verify: "RSASSA-PKCS1-v1_5" },
+  ES256: { kty: "EC", import: { name: "ECDSA", namedCurve: "P-256" }, verify: { name: "ECDSA", hash: "SHA-256" } },
+};
+
+/** Verifies RS256/ES256 JWTs against a JWKS, checking `exp`/`nbf` and, if set, issuer and audience */
+export function jwksProvider(config: { jwksUrl: string; issuer?: string; audience?: string }): IdentityProvider {
+  let cache: { keys: Jwk[]; fetchedAt: number } | null = null;
+
+  async function keys(force: boolean): Promise<Jwk[]> {
+    const age = cache ? Date.now() - cache.fetchedAt : Infinity;
+    if (cache && age < (force ? JWKS_REFETCH_MS : JWKS_TTL_MS)) return cache.keys;
+    const res = await fetch(config.jwksUrl);
+    if (!res.ok) throw new Error(`JWKS fetch failed: ${res.status}`);
+    const body = (await res.json()) as { keys?: unknown };
+    cache = { keys: Array.isArray(body.keys) ? (body.keys as Jwk[]) : [], fetchedAt: Date.now() };
+    return cache.keys;
+  }
+
+  // A token without `kid` only matches a JWKS with a single key; a key's `alg`, if set, must be the token's
+  async function findKey(kid: unknown, alg: string, kty: string): Promise<Jwk | undefined> {
+    const match = (list: Jwk[]) => {
+      if (kid === undefined && list.length !== 1) return undefined;
+      return list.find((k) => k.kty === kty && (kid === undefined || k.kid === kid) && (k.alg === undefined || k.alg === alg));
+    };
+    return match(await keys(false)) ?? match(await keys(true));
+  }
+
+  return {
+    async verify(jwt) {
+      const [head, body, sig] = jwt.split(".");
+      const header = head ? decodeJson(head) : null;
+      const claims = body ? decodeJson(body) : null;
+      const signature = sig ? fromBase64url(sig) : null;
+      const algName = typeof header?.alg === "string" ? header.alg : "";
+      const alg = Object.hasOwn(ALGORITHMS, algName) ? ALGORITHMS[algName] : null;
+      if (!header || !claims || !signature || !alg) return null;
+
+      const jwk = await findKey(header.kid, algName, alg.kty);
+      if (!jwk) return null;
+      const key = await crypto.subtle.importKey("jwk", jwk, alg.import, false, ["verify"]);
+      if (!(await crypto.subtle.verify(alg.verify, key, signature, encoder.encode(`${head}.${body}`)))) return null;
+
+      const now = Date.now() / 1000;
+      if (typeof claims.exp !== "number" || claims.exp + CLOCK_SKEW_S < now) return null;
+      if (typeof claims.nbf === "number" && claims.nbf - CLOCK_SKEW_S > now) return null;
+      if (config.issuer && claims.iss !== config.issuer) return null;
+      const aud = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+      if (config.audience && !aud.includes(config.audience)) return null;
+      if (typeof claims.sub !== "string" || !claims.sub) return null;
+      return { issuer: typeof claims.iss === "string" ? claims.iss : "", subject: claims.sub };
+    },
+  };
+}
+
+let provider: { url: string; provider: IdentityProvider } | null = null;
+
+/** The configured identity provider (AUTH_JWKS_URL), or null for anonymous sessions */
+export function identityProvider(env: AuthEnv): IdentityProvider | null {
+  if (!env.AUTH_JWKS_URL) return null;
+  if (provider?.url !== env.AUTH_JWKS_URL) {
+    const jwks = jwksProvider({ jwksUrl: env.AUTH_JWKS_URL, issuer: env.AUTH_ISSUER, audience: env.AUTH_AUDIENCE });
+    provider = { url: env.AUTH_JWKS_URL, provider: jwks };
+  }
+  return provider.provider;
+}
+
+// A user's session id: the same on every device, and not their raw subject
+async function identitySessionId({ issuer, subject }: Identity): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", encoder.encode(`${issuer}\n${subject}`));
+  return `u-${base64url(new Uint8Array(digest)).slice(0, 40)}`;
+}
+
+/* ------------------------------ /api/session -------------------------------- */
+
+/**
+ * `POST /api/session` → `{ sessionId, token, expiresAt }`. With an identity provider, the
+ * caller's JWT (Cloudflare Access's `Cf-Access-Jwt-Assertion`, or `Authorization: Bearer`)
+ * picks the user's session. A valid session token in `Authorization` is renewed for the same
+ * session, up to SESSION_MAX_AGE_MS after it was opened. Otherwise, without an identity provider, a new anonymous session is created.
+ */
+export async function handleSessionRequest(request: Request, env: AuthEnv): Promise<Response> {
+  if (request.method !== "POST") return new Response("Method Not Allowed", { status: 405, headers: { Allow: "POST" } });
+  if (!env.SESSION_SECRET) {
+    console.log("[auth] SESSION_SECRET is not set; no sessions can be issued");
+    return json({ error: "Sessions are not configured on this deployment" }, 503);
+  }
+
+  const bearer = bearerToken(request);
+  const current = await requestSession(request, env);
+  let sid: string;
+  let sub: string | null = null;
+  let authAt: number | undefined;
+
+  // A fresh identity wins over a renewal (another user may have signed in)
+  const idp = identityProvider(env);
+  const credential = request.headers.get("Cf-Access-Jwt-Assertion") ?? (current ? null : bearer);
+  if (idp && credential) {
+    let identity: Identity | null = null;
+    try {
+      identity = await idp.verify(credential);
+    } catch (e) {
+      console.log("[auth] identity check failed", { message: e instanceof Error ? e.message : String(e) });
+    }
+    if (!identity) return json({ error: "The identity token is invalid" }, 401);
+    sid = await identitySessionId(identity);
+    sub = identity.subject;
+  } else if (current) {
+    if (current.authAt * 1000 + SESSION_MAX_AGE_MS <= Date.now()) {
+      return json({ error: idp ? "The session is too old to renew; sign in again" : "The session is too old to renew" }, 401);
+    }
+    ({ sid, sub, authAt } = current);
+  } else if (idp) {
+    return json({ error: "Sign in first: a valid identity token is required" }, 401);
+  } else if (bearer) {
+    // A stale token shouldn't silently become a different conversation
+    return json({ error: "The session token is invalid or expired" }, 401);
+  } else {
+    sid = crypto.randomUUID();
+  }
+
+  const { token, expiresAt } = await issueSessionToken(env, sid, sub, authAt);
+  console.log("[auth] session token issued", { sid, renewed: !!current, user: !!sub });
+  return json({ sessionId: sid, token, expiresAt });
+}
@@ -0,0 +1,128 @@
+// Context window management - decides which stored rows go to the model.
+// Newest turns are kept verbatim up to a per-model token budget; older ones are
+// handed back as overflow so the agent can roll them into a running summary.
+import { findModel } from "./models";
+import { findTool } from "./tools";
+import type { RegisteredTool, ToolResultBase } from "./tools/types";
+import { isMcpToolName, mcpFacts, type McpToolResult } from "./mcp";
+import { apiFacts, isApiToolName, type ApiToolResult } from "./openapi";
+
+export type ContextRow = { role: "user" | "assistant" | "tool"; content: string; ts: number; tool?: string };
+export type ContextMessage = { role: "system" | "user" | "assistant"; content: string };
+
+type ModelContext = { window: number; charsPerToken: number };
+
+// Windows come from the model catalog; this covers anything not in it
+const DEFAULT_CONTEXT: ModelContext = { window: 8_192, charsPerToken: 3.5 };
+
+// History gets at most this share of the window (the rest is system prompt,
+// tool schemas, the new message and the reply), and never more than the cap
+const HISTORY_SHARE = 0.5;
+const HISTORY_CAP_TOKENS = 12_000;
+const MESSAGE_CAP_TOKENS = 1_500;
+const DIGEST_MAX_CHARS = 600;
+const PER_MESSAGE_OVERHEAD = 4;
+
+function modelContext(model: string): ModelContext {
+  const info = findModel(model);
+  return info ? { window: info.contextWindow, charsPerToken: info.charsPerToken } : DEFAULT_CONTEXT;
+}
+
+export function estimateTokens(text: string, model: string): number {
+  return Math.ceil(text.length / modelContext(model).charsPerToken) + PER_MESSAGE_OVERHEAD;
+}
+
+export function historyBudget(model: string): number {
+  return Math.min(Math.floor(modelContext(model).window * HISTORY_SHARE), HISTORY_CAP_TOKENS);
+}
+
+/** Compact, model-readable version of a stored tool result (null if unreadable) */
+export function toolDigest(toolName: string | undefined, content: string): string | null {
+  try {
+    const result = JSON.parse(content) as unknown;
+    if (typeof result !== "object" || result === null) return null;
+    // MCP servers and OpenAPI documents come and go; their stored results still read the same way
+    const tool: RegisteredTool | undefined = findTool(toolName);
+    const facts = tool
+      ? tool.facts(result as ToolResultBase)
+      : isMcpToolName(toolName) ? mcpFacts(result as McpToolResult)
+      : isApiToolName(toolName) ? apiFacts(result as ApiToolResult)
+      : null;
+    if (!facts) return null;
+    return facts.length > DIGEST_MAX_CHARS ? facts.slice(0, DIGEST_MAX_CHARS) + "…" : facts;
+  } catch {
+    return null;
+  }
+}
+
+/** Stored row → model message; long messages are clipped instead of blowing the window */
+export function toContextMessage(row: ContextRow, model: string): ContextMessage | null {
+  let content: string;
+  let role: "user" | "assistant";
+  if (row.role === "tool") {
+    const digest = toolDigest(row.tool, row.content);
+    if (!digest) return null;
+    role = "assistant";
+    content = `[tool data]\n${digest}`;
+  } else {
+    role = row.role;
+    content = row.content;
+  }
+
+  const maxChars = Math.floor(MESSAGE_CAP_TOKENS * modelContext(model).charsPerToken);
+  if (content.length > maxChars) content = content.slice(0, maxChars) + "… [truncated]";
+  return { role, content };
+}
+
+/**
+ * Keeps the newest rows that fit the model's history budget. `summary` (if any)
+ * is counted against the budget too. Rows that don't fit come back as `overflow`,
+ * oldest first.
+ */
+export function fitHistory(
+  rows: ContextRow[],
+  model: string,
+  summary: string | null
+): { messages: ContextMessage[]; overflow: ContextRow[] } {
+  let budget = historyBudget(model) - (summary ? estimateTokens(summary, model) : 0);
+  const kept: ContextMessage[] = [];
+
+  let i = rows.length - 1;
+  for (; i >= 0; i--) {
+    const msg = toContextMessage(rows[i], model);
+    if (!msg) continue;
+    const cost = estimateTokens(msg.content, model);
+    if (cost > budget) break;
+    budget -= cost;
+    kept.unshift(msg);
+  }
+
+  return { messages: kept, overflow: rows.slice(0, i + 1) };
+}
+
+/** Prompt that folds overflowing turns into the running summary */
+export function summaryPrompt(previous: string | null, overflow: ContextRow[], model: string): ContextMessage[] {
+  let transcript = overflow
+    .map((row) => toContextMessage(row, model))
+    .filter((m): m is ContextMessage => m !== null)
+    .map((m) => `${m.role === "user" ? "User" : "Assistant"}: ${m.content}`)
+    .join("\n\n");
+
+  // First summary of a long chat: keep the newest part that fits the budget
+  const maxChars = historyBudget(model) * modelContext(model).charsPerToken;
+  if (transcript.length > maxChars) transcript = "…" + transcript.slice(-maxChars);
+
+  return [
+    {
+      role: "system",
+      content:
+        "You maintain a running summary of a chat so it can continue without the full transcript. " +
+        "Merge the previous summary with the new turns. Keep names, places, numbers, dates and tool results " +
+        "the user may refer back to; drop small talk. Reply with the summary only, under 200 words.",
+    },
+    {
+      role: "user",
+      content: `Previous summary:\n${previous || "(none)"}\n\nNew turns:\n${transcript}`,
+    },
+  ];
+}
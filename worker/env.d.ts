@@ -0,0 +1,27 @@
+// The worker's bindings, vars and secrets. The `Cloudflare.Env` block `wrangler types`
+// writes into worker-configuration.d.ts doesn't merge here (it clashes with that file's
+// `Cloudflare` global), so the bindings are typed here too; AI is narrowed in agent.ts.
+declare namespace Cloudflare {
+  interface Env {
+    ASSETS: Fetcher;
+    AI_AGENT: DurableObjectNamespace<import("./agent").default>;
+
+    // Optional vars and secrets
+    /** Secret; signs session tokens. Without it no session can be opened */
+    SESSION_SECRET?: string;
+    /** Identity provider: sessions need a JWT that verifies against this JWKS */
+    AUTH_JWKS_URL?: string;
+    AUTH_ISSUER?: string;
+    AUTH_AUDIENCE?: string;
+    /** Tool loop steps per turn (default 4, at most 8) */
+    MAX_TOOL_STEPS?: string;
+    /** Tool planner for chat models that can't call tools; "none" skips tools for them */
+    PLANNER_MODEL?: string;
+    /** JSON array of deployment MCP servers: { name, url, headers? } */
+    MCP_SERVERS?: string;
+    /** Secret; required to register OpenAPI tools (unset = registration disabled) */
+    ADMIN_TOKEN?: string;
+    /** Comma-separated secret names OpenAPI headers may reference as {{secret:NAME}} */
+    OPENAPI_SECRETS?: string;
+  }
+}
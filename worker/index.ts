@@ -1,17 +1,76 @@
 /// <reference types="@cloudflare/workers-types" />
-import { routeAgentRequest } from "agents";
+import { getAgentByName, routeAgentRequest, type AgentOptions } from "agents";
+import { authorizeSession, handleSessionRequest, requestSession } from "./auth";
+import { handleMcpRequest } from "./mcpServer";
+import { handleOpenAiRequest } from "./openaiApi";
+import { SESSION_PATTERN } from "./protocol";
 export { default as AIAgent } from "./agent";
-type AssetsBinding = { fetch(request: Request): Promise<Response> };
+
+// The agent sees (and logs) its request URL; the token stays out of it
+function withoutToken(request: Request): Request {
+  const url = new URL(request.url);
+  if (!url.searchParams.has("token")) return request;
+  url.searchParams.delete("token");
+  return new Request(url, request);
+}
+
+// Exactly the SDK's MCP OAuth callback path, `/agents/ai-agent/<name>/callback/<serverId>`.
+// The agent only treats it as one if it registered that URL; any other path 404s there.
+function isMcpCallback(request: Request, name: string): boolean {
+  const prefix = `/agents/ai-agent/${name}/callback/`;
+  const path = new URL(request.url).pathname;
+  return request.method === "GET" && path.startsWith(prefix) && /^[^/]+$/.test(path.slice(prefix.length));
+}
 
 export default {
-  async fetch(request: Request, env: Cloudflare.Env & { ASSETS: AssetsBinding }, _ctx: ExecutionContext): Promise<Response> {
+  async fetch(request: Request, env: Env, _ctx: ExecutionContext): Promise<Response> {
     void _ctx;
     const url = new URL(request.url);
 
-    // Handle agent WebSocket/HTTP requests
-    const routed = await (routeAgentRequest as unknown as (req: Request, env: Env) => Promise<Response | null>)(request, env);
+    // Session tokens: new, renewed, or for a signed-in user
+    if (url.pathname === "/api/session") return handleSessionRequest(request, env);
+
+    // Handle agent WebSocket/HTTP requests - only with a token for that session
+    const routed = await (routeAgentRequest as unknown as (req: Request, env: Env, options: AgentOptions<Env>) => Promise<Response | null>)(
+      request,
+      env,
+      {
+        onBeforeConnect: async (req, { name }) => (await authorizeSession(req, env, name)) ?? withoutToken(req),
+        // MCP OAuth redirects come back from the provider without a token; the SDK checks their state
+        onBeforeRequest: async (req, { name }) =>
+          isMcpCallback(req, name) ? undefined : ((await authorizeSession(req, env, name)) ?? withoutToken(req)),
+      }
+    );
     if (routed) return routed;
 
+    // MCP endpoint for other agents and IDE assistants; tool calls need a token, `chat` runs in its session
+    if (url.pathname === "/mcp") {
+      const session = await requestSession(request, env);
+      return handleMcpRequest(request, env, session?.sid ?? null);
+    }
+
+    // OpenAI-compatible chat completions, each one an agent turn in the token's session
+    if (url.pathname.startsWith("/v1/")) {
+      const session = await requestSession(request, env);
+      return handleOpenAiRequest(request, env, session?.sid ?? null);
+    }
+
+    // HTTP chat API: the same turns as the WebSocket, as JSON or SSE (handled by the session's agent)
+    const sessionMessages = url.pathname.match(/^\/api\/sessions\/([^/]+)\/messages\/?$/);
+    if (sessionMessages) {
+      const session = sessionMessages[1];
+      if (!SESSION_PATTERN.test(session)) {
+        return new Response(JSON.stringify({ error: "Session ids are 1-64 letters, digits, _ or -" }), {
+          status: 400,
+          headers: { "content-type": "application/json" },
+        });
+      }
+      const denied = await authorizeSession(request, env, session);
+      if (denied) return denied;
+      const agent = await getAgentByName(env.AI_AGENT, session);
+      return agent.fetch(request);
+    }
+
     if (url.pathname === "/api/health") {
       return new Response(JSON.stringify({ ok: true }), {
         headers: { "content-type": "application/json" },
@@ -21,4 +80,4 @@ export default {
     // Serve static files
     return env.ASSETS.fetch(request);
   },
-} satisfies ExportedHandler<Env & { ASSETS: AssetsBinding }>;
+} satisfies ExportedHandler<Env>;
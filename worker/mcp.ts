@@ -0,0 +1,214 @@
+// MCP client glue - tools discovered on external Model Context Protocol servers,
+// adapted into registry entries so the planner, progress events and persistence
+// treat them like the compiled-in tools.
+import type { Agent } from "agents";
+import { defineTool, type RegisteredTool, type ToolContext, type ToolFailure } from "./tools/types";
+
+type McpManager = Agent["mcp"];
+type DiscoveredTool = ReturnType<McpManager["listTools"]>[number];
+
+/** Planner-facing name: `mcp_<server>__<tool>` */
+export type McpToolName = `mcp_${string}`;
+
+export type McpContent =
+  | { type: "text"; text: string }
+  | { type: "json"; value: unknown }
+  | { type: "resource"; uri: string; text?: string }
+  /** Images, audio etc. - kept as a marker, the payload isn't stored */
+  | { type: "other"; kind: string };
+
+export type McpToolResult =
+  | { ok: true; server: string; tool: string; content: McpContent[] }
+  | ToolFailure;
+
+/** Server entry from config (`MCP_SERVERS`) or a client's `mcp.add` */
+export type McpServerConfig = { name: string; url: string; headers?: Record<string, string> };
+
+/** Server list entry, as sent to the client */
+export type McpServerInfo = {
+  id: string;
+  name: string;
+  url: string;
+  state: string;
+  /** "deployment" servers come from `MCP_SERVERS` and can't be removed by a client */
+  scope: "deployment" | "session";
+  authUrl?: string;
+  tools: string[];
+};
+
+const MCP_CALL_TIMEOUT_MS = 30_000;
+const MAX_TEXT_CHARS = 8_000;
+const MAX_NAME_LENGTH = 64; // Workers AI function names
+
+const slug = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "");
+
+/** The server-name part of its tool names (`mcp_<namespace>__<tool>`) */
+export function mcpNamespace(server: string): string {
+  return slug(server).slice(0, 20);
+}
+
+export function mcpToolName(server: string, tool: string): McpToolName {
+  return `mcp_${mcpNamespace(server)}__${tool.replace(/[^A-Za-z0-9_-]/g, "_")}`.slice(0, MAX_NAME_LENGTH) as McpToolName;
+}
+
+export function isMcpToolName(name: unknown): name is McpToolName {
+  return typeof name === "string" && name.startsWith("mcp_");
+}
+
+/** `MCP_SERVERS` var: JSON array of { name, url, headers? }; bad entries are skipped */
+export function parseMcpServers(raw: string | undefined): McpServerConfig[] {
+  if (!raw) return [];
+  try {
+    const list = JSON.parse(raw) as unknown;
+    return (Array.isArray(list) ? list : [])
+      .filter((s) => typeof s === "object" && s !== null && typeof s.name === "string" && isHttpUrl(s.url))
+      .map((s) => ({ name: s.name, url: s.url, headers: stringRecord(s.headers) }));
+  } catch {
+    console.log("[mcp] MCP_SERVERS is not valid JSON, ignoring");
+    return [];
+  }
+}
+
+/** Header maps from config or clients: string values only */
+export function stringRecord(v: unknown): Record<string, string> | undefined {
+  if (typeof v !== "object" || v === null || Array.isArray(v)) return undefined;
+  const entries = Object.entries(v).filter((e): e is [string, string] => typeof e[1] === "string");
+  return entries.length ? Object.fromEntries(entries) : undefined;
+}
+
+export function isHttpUrl(v: unknown): v is string {
+  if (typeof v !== "string") return false;
+  try {
+    return ["http:", "https:"].includes(new URL(v).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/* ----------------------------- arguments ----------------------------- */
+
+type JsonSchemaObject = { properties?: Record<string, { type?: unknown }>; required?: string[] };
+
+/** Shallow check against the tool's input schema: an object, required keys present, primitive types right */
+function validateMcpArgs(raw: unknown, schema: JsonSchemaObject): Record<string, unknown> | null {
+  const args = raw === undefined || raw === null ? {} : raw;
+  if (typeof args !== "object" || Array.isArray(args)) return null;
+  const rec = args as Record<string, unknown>;
+  if ((schema.required ?? []).some((k) => rec[k] === undefined)) return null;
+
+  for (const [key, prop] of Object.entries(schema.properties ?? {})) {
+    const v = rec[key];
+    if (v === undefined) continue;
+    const type = prop?.type;
+    if (type === "string" && typeof v !== "string") return null;
+    if ((type === "number" || type === "integer") && typeof v !== "number") return null;
+    if (type === "boolean" && typeof v !== "boolean") return null;
+  }
+  return rec;
+}
+
+/* ------------------------------ results ------------------------------ */
+
+const clip = (s: string, max: number) => (s.length > max ? s.slice(0, max) + "…" : s);
+
+function toContent(raw: unknown): McpContent[] {
+  const res = (raw ?? {}) as { content?: unknown; structuredContent?: unknown };
+  const items = Array.isArray(res.content) ? (res.content as Record<string, unknown>[]) : [];
+  const out: McpContent[] = items.map((c) => {
+    if (c.type === "text" && typeof c.text === "string") return { type: "text", text: clip(c.text, MAX_TEXT_CHARS) };
+    if (c.type === "resource" && typeof c.resource === "object" && c.resource) {
+      const r = c.resource as { uri?: unknown; text?: unknown };
+      return { type: "resource", uri: String(r.uri ?? ""), text: typeof r.text === "string" ? clip(r.text, MAX_TEXT_CHARS) : undefined };
+    }
+    return { type: "other", kind: String(c.type ?? "unknown") };
+  });
+  if (res.structuredContent !== undefined) out.push({ type: "json", value: res.structuredContent });
+  return out;
+}
+
+function contentText(content: McpContent[]): string {
+  return content
+    .map((c) =>
+      c.type === "text" ? c.text
+      : c.type === "json" ? JSON.stringify(c.value, null, 2)
+      : c.type === "resource" ? `${c.uri}${c.text ? `\n${c.text}` : ""}`
+      : `[${c.kind}]`
+    )
+    .join("\n\n");
+}
+
+export function summarizeMcp(result: McpToolResult): string {
+  if (!result.ok) return `The tool call failed: ${result.error}`;
+  const text = contentText(result.content).trim();
+  return text ? clip(text, 600) : `${result.tool} on ${result.server} returned no content.`;
+}
+
+export function mcpFacts(result: McpToolResult): string {
+  if (!result.ok) return `MCP tool call failed: ${result.error}`;
+  return `Result of tool "${result.tool}" on MCP server "${result.server}":\n${clip(contentText(result.content), 3000) || "(empty)"}`;
+}
+
+/* ------------------------------ calling ------------------------------ */
+
+async function callMcpTool(
+  mcp: McpManager,
+  serverId: string,
+  server: string,
+  tool: string,
+  args: Record<string, unknown>,
+  ctx: ToolContext
+): Promise<McpToolResult> {
+  ctx.step("call", `Calling ${tool} on ${server}…`);
+  try {
+    const res = await mcp.callTool({ serverId, name: tool, arguments: args }, undefined, {
+      signal: ctx.signal,
+      timeout: MCP_CALL_TIMEOUT_MS,
+      resetTimeoutOnProgress: true,
+      onprogress: ({ progress, total, message }) =>
+        ctx.step("call", message ?? (total ? `${tool}: ${progress}/${total}` : `${tool}: ${progress}`)),
+    });
+    const content = toContent(res);
+    if ((res as { isError?: unknown }).isError) {
+      return { ok: false, error: clip(contentText(content), 300) || `${tool} reported an error` };
+    }
+    return { ok: true, server, tool, content };
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    console.log("[mcp] call failed", { server, tool, message });
+    // -32001 = MCP RequestTimeout
+    const code = (e as { code?: unknown })?.code === -32001 ? "timeout" : "upstream_5xx";
+    return { ok: false, code, error: `${server} ${code === "timeout" ? "timed out" : "failed"}: ${message}` };
+  }
+}
+
+/**
+ * Registry entries for every tool the connected servers advertise.
+ * `serverNames` maps server ids to display names (the namespace).
+ */
+export function mcpTools(mcp: McpManager, serverNames: Record<string, string>): RegisteredTool<McpToolName, McpToolResult>[] {
+  return mcp.listTools().map((t: DiscoveredTool) => {
+    const server = serverNames[t.serverId] ?? t.serverId;
+    const name = mcpToolName(server, t.name);
+    const description = t.description?.trim() || `${t.name} from ${server}`;
+    const schema = (t.inputSchema ?? { type: "object" }) as JsonSchemaObject & Record<string, unknown>;
+
+    return defineTool({
+      name,
+      title: `${t.name} (${server})`,
+      description: `${description} [MCP: ${server}]`,
+      plannerHint: `${description} (tool "${t.name}" on MCP server "${server}")`,
+      schema: { type: "function", function: { name, description, parameters: schema } },
+      steps: [
+        { key: "plan", label: "Understand request" },
+        { key: "call", label: `Call ${server}` },
+        { key: "final", label: "Finalize" },
+      ],
+      preamble: `Let me ask ${server}…`,
+      failureMessage: `${server} couldn't complete that. Please try again.`,
+      validateArgs: (raw) => validateMcpArgs(raw, schema),
+      execute: (args, ctx) => callMcpTool(mcp, t.serverId, server, t.name, args, ctx),
+      summarize: summarizeMcp,
+      facts: mcpFacts,
+    });
+  });
+}
@@ -0,0 +1,196 @@
+// MCP server endpoint (`/mcp`) - the compiled-in tools, plus a `chat` tool that runs
+// a whole agent turn in the caller's session (from its session token), for other agents
+// and IDE assistants. Listing is open; every tool call needs a session token.
+// Stateless Streamable HTTP: each POST gets a JSON reply, there's no session id
+// and no server-initiated stream.
+import { getAgentByName } from "agents";
+import { TOOLS, findTool } from "./tools";
+import type { RegisteredTool, ToolCache, ToolContext } from "./tools/types";
+
+type JsonRpcId = string | number | null;
+type JsonRpcRequest = { jsonrpc: "2.0"; id?: JsonRpcId; method: string; params?: Record<string, unknown> };
+type JsonRpcResponse =
+  | { jsonrpc: "2.0"; id: JsonRpcId; result: unknown }
+  | { jsonrpc: "2.0"; id: JsonRpcId; error: { code: number; message: string } };
+
+export type McpServerEnv = Pick<Env, "AI_AGENT">;
+
+// Newest first; an unknown version from the client gets the newest
+const PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"];
+const SERVER_INFO = { name: "cf-chat-agent", title: "Chat Agent", version: "1.0.0" };
+
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+// Implementation-defined server error range
+const UNAUTHORIZED = -32001;
+const TOKEN_REQUIRED = "Tool calls need a session token (Authorization: Bearer, from POST /api/session)";
+
+/** Thrown inside handlers; becomes the JSON-RPC error of the response */
+class RpcError extends Error {
+  readonly code: number;
+
+  constructor(code: number, message: string) {
+    super(message);
+    this.name = "RpcError";
+    this.code = code;
+  }
+}
+
+const CHAT_TOOL = "chat";
+
+const chatToolSchema = {
+  name: CHAT_TOOL,
+  title: "Chat Agent",
+  description:
+    "Ask the chat agent. It plans, calls its tools (weather, Wikipedia, ISS) and answers in a persistent conversation. " +
+    "Calls with the same session token continue the same conversation.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      message: { type: "string", description: "What to ask the agent" },
+    },
+    required: ["message"],
+  },
+};
+
+// Calls made here run outside a session, so there's nothing to cache into
+const noCache: ToolCache = { through: (_kind, _args, _ttlMs, load) => load() };
+
+function listTools() {
+  return [
+    ...TOOLS.map((t) => ({
+      name: t.name,
+      title: t.title,
+      description: t.description,
+      inputSchema: t.schema.function.parameters,
+    })),
+    chatToolSchema,
+  ];
+}
+
+function toolResult(text: string, structured: unknown, isError: boolean) {
+  return { content: [{ type: "text", text }], structuredContent: structured, isError };
+}
+
+async function callRegisteredTool(name: string, rawArgs: unknown, signal: AbortSignal) {
+  const tool: RegisteredTool | undefined = findTool(name);
+  if (!tool) return null;
+  const args = tool.validateArgs(rawArgs ?? {});
+  if (!args) throw new RpcError(INVALID_PARAMS, `Invalid arguments for ${name}`);
+
+  const ctx: ToolContext = {
+    step: (step, message) => console.log("[mcp-server] step", { tool: name, step, message }),
+    signal,
+    cache: noCache,
+    retry: (info) => console.log("[mcp-server] retry", { tool: name, ...info }),
+  };
+  const result = await tool.execute(args, ctx);
+  return result.ok
+    ? toolResult(tool.summarize(result), result, false)
+    : toolResult(result.error, result, true);
+}
+
+async function callChat(env: McpServerEnv, session: string, rawArgs: unknown) {
+  const args = (rawArgs ?? {}) as { message?: unknown };
+  const message = typeof args.message === "string" ? args.message.trim() : "";
+  if (!message) throw new RpcError(INVALID_PARAMS, "chat needs a non-empty `message`");
+
+  const agent = await getAgentByName(env.AI_AGENT, session);
+  const { reply, threadId, tools } = await agent.chat(message);
+  return toolResult(reply || "(no reply)", { reply, session, threadId, tools: tools.map((t) => ({ tool: t.tool, ok: t.result.ok })) }, !reply);
+}
+
+async function dispatch(env: McpServerEnv, session: string | null, req: JsonRpcRequest, signal: AbortSignal): Promise<unknown> {
+  const params = req.params ?? {};
+  switch (req.method) {
+    case "initialize": {
+      const asked = typeof params.protocolVersion === "string" ? params.protocolVersion : "";
+      return {
+        protocolVersion: PROTOCOL_VERSIONS.includes(asked) ? asked : PROTOCOL_VERSIONS[0],
+        capabilities: { tools: { listChanged: false } },
+        serverInfo: SERVER_INFO,
+        instructions: "Tools for weather, Wikipedia and the ISS, plus `chat` to ask the full agent.",
+      };
+    }
+    case "ping":
+      return {};
+    case "tools/list":
+      return { tools: listTools() };
+    case "tools/call": {
+      const name = typeof params.name === "string" ? params.name : "";
+      console.log("[mcp-server] call", { name });
+      if (!session) throw new RpcError(UNAUTHORIZED, TOKEN_REQUIRED);
+      if (name === CHAT_TOOL) return callChat(env, session, params.arguments);
+      const result = await callRegisteredTool(name, params.arguments, signal);
+      if (!result) throw new RpcError(INVALID_PARAMS, `Unknown tool: ${name}`);
+      return result;
+    }
+    default:
+      throw new RpcError(METHOD_NOT_FOUND, `Method not found: ${req.method}`);
+  }
+}
+
+function isRequest(v: unknown): v is JsonRpcRequest {
+  return typeof v === "object" && v !== null && (v as JsonRpcRequest).jsonrpc === "2.0" && typeof (v as JsonRpcRequest).method === "string";
+}
+
+// Notifications (no id) get no response
+async function handleMessage(env: McpServerEnv, session: string | null, msg: unknown, signal: AbortSignal): Promise<JsonRpcResponse | null> {
+  if (!isRequest(msg)) {
+    return { jsonrpc: "2.0", id: null, error: { code: INVALID_REQUEST, message: "Not a JSON-RPC 2.0 request" } };
+  }
+  if (msg.id === undefined) return null;
+  try {
+    return { jsonrpc: "2.0", id: msg.id, result: await dispatch(env, session, msg, signal) };
+  } catch (e) {
+    const code = e instanceof RpcError ? e.code : -32603;
+    const message = e instanceof Error ? e.message : String(e);
+    if (!(e instanceof RpcError)) console.log("[mcp-server] error", { method: msg.method, message });
+    return { jsonrpc: "2.0", id: msg.id, error: { code, message } };
+  }
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } });
+
+/**
+ * `/mcp` handler: POST carries JSON-RPC messages (one or a batch); GET/DELETE aren't offered.
+ * `session` is the caller's verified session, or null: then `initialize` and `tools/list`
+ * work, and a request with a tool call gets 401.
+ */
+export async function handleMcpRequest(request: Request, env: McpServerEnv, session: string | null): Promise<Response> {
+  if (request.method !== "POST") {
+    return new Response("Method Not Allowed", { status: 405, headers: { Allow: "POST" } });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return json({ jsonrpc: "2.0", id: null, error: { code: PARSE_ERROR, message: "Invalid JSON" } }, 400);
+  }
+
+  const batch = Array.isArray(body);
+  const messages: unknown[] = Array.isArray(body) ? body : [body];
+  // Without a token the upstream APIs behind the tools stay out of reach
+  if (!session && messages.some((m) => isRequest(m) && m.method === "tools/call")) {
+    const id = !batch && isRequest(body) ? (body.id ?? null) : null;
+    const error = { code: UNAUTHORIZED, message: TOKEN_REQUIRED };
+    return new Response(JSON.stringify({ jsonrpc: "2.0", id, error }), {
+      status: 401,
+      headers: { "content-type": "application/json", "WWW-Authenticate": "Bearer" },
+    });
+  }
+
+  const responses: JsonRpcResponse[] = [];
+  for (const msg of messages) {
+    const res = await handleMessage(env, session, msg, request.signal);
+    if (res) responses.push(res);
+  }
+
+  // Only notifications/responses came in
+  if (!responses.length) return new Response(null, { status: 202 });
+  return json(batch ? responses : responses[0]);
+}
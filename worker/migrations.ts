@@ -0,0 +1,155 @@
+// Versioned schema migrations for the agent's SQLite storage.
+// Each Durable Object records applied versions in `_migrations` and runs the
+// missing steps, in order and each in its own transaction, on first access.
+// Never edit a shipped step - append a new one.
+
+export type Migration = {
+  version: number;
+  name: string;
+  up: (sql: SqlStorage) => void;
+};
+
+function hasColumn(sql: SqlStorage, table: string, column: string): boolean {
+  return sql.exec<{ name: string }>(`PRAGMA table_info(${table})`).toArray().some((c) => c.name === column);
+}
+
+/** ALTER TABLE ADD COLUMN, skipped if present (DOs created before `_migrations` existed may have it) */
+function addColumn(sql: SqlStorage, table: string, column: string, type: string): boolean {
+  if (hasColumn(sql, table, column)) return false;
+  sql.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+  return true;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "messages",
+    up: (sql) => {
+      sql.exec(`
+        CREATE TABLE IF NOT EXISTS messages (
+          id INTEGER PRIMARY KEY,
+          role    TEXT    NOT NULL,
+          content TEXT    NOT NULL,
+          ts      INTEGER NOT NULL
+        )`);
+    },
+  },
+  {
+    version: 2,
+    name: "threads",
+    up: (sql) => {
+      sql.exec(`
+        CREATE TABLE IF NOT EXISTS threads (
+          id              TEXT PRIMARY KEY,
+          title           TEXT    NOT NULL,
+          summary         TEXT,
+          summary_through INTEGER,
+          created_at      INTEGER NOT NULL,
+          updated_at      INTEGER NOT NULL
+        )`);
+      addColumn(sql, "messages", "thread_id", "TEXT");
+
+      // Rows from before threads are adopted into one thread
+      const [{ n }] = sql.exec<{ n: number }>(`SELECT COUNT(*) AS n FROM messages WHERE thread_id IS NULL`).toArray();
+      if (n) {
+        const id = crypto.randomUUID();
+        const now = Date.now();
+        sql.exec(`INSERT INTO threads (id, title, created_at, updated_at) VALUES (?, 'Conversation', ?, ?)`, id, now, now);
+        sql.exec(`UPDATE messages SET thread_id = ? WHERE thread_id IS NULL`, id);
+        sql.exec(`UPDATE threads SET updated_at = (SELECT MAX(ts) FROM messages WHERE thread_id = ?) WHERE id = ?`, id, id);
+      }
+    },
+  },
+  {
+    version: 3,
+    name: "message tree",
+    up: (sql) => {
+      // Existing rows become a single chain per thread, head = newest
+      if (addColumn(sql, "messages", "parent_id", "INTEGER")) {
+        sql.exec(`
+          UPDATE messages SET parent_id = (
+            SELECT MAX(m2.id) FROM messages m2 WHERE m2.thread_id = messages.thread_id AND m2.id < messages.id
+          )`);
+      }
+      if (addColumn(sql, "threads", "head_id", "INTEGER")) {
+        sql.exec(`UPDATE threads SET head_id = (SELECT MAX(id) FROM messages WHERE thread_id = threads.id)`);
+      }
+      sql.exec(`CREATE INDEX IF NOT EXISTS messages_thread ON messages (thread_id, id)`);
+    },
+  },
+  {
+    version: 4,
+    name: "typed tool rows and reply metadata",
+    up: (sql) => {
+      addColumn(sql, "messages", "tool_name", "TEXT");
+      addColumn(sql, "messages", "tool_ok", "INTEGER");
+      addColumn(sql, "messages", "model", "TEXT");
+      addColumn(sql, "messages", "latency_ms", "INTEGER");
+      addColumn(sql, "messages", "prompt_tokens", "INTEGER");
+      addColumn(sql, "messages", "completion_tokens", "INTEGER");
+
+      // Tool rows were {"type":"tool_result","tool":…,"result":…}; keep only the result in `content`
+      sql.exec(`
+        UPDATE messages SET
+          tool_name = json_extract(content, '$.tool'),
+          tool_ok   = json_extract(content, '$.result.ok'),
+          content   = json_extract(content, '$.result')
+        WHERE role = 'tool' AND tool_name IS NULL AND json_valid(content)
+          AND json_extract(content, '$.tool') IS NOT NULL`);
+      sql.exec(`CREATE INDEX IF NOT EXISTS messages_tool ON messages (tool_name) WHERE tool_name IS NOT NULL`);
+    },
+  },
+  {
+    version: 5,
+    name: "tool cache",
+    up: (sql) => {
+      sql.exec(`
+        CREATE TABLE IF NOT EXISTS tool_cache (
+          key        TEXT PRIMARY KEY,
+          tool       TEXT    NOT NULL,
+          value      TEXT    NOT NULL,
+          fetched_at INTEGER NOT NULL
+        )`);
+    },
+  },
+  {
+    version: 6,
+    name: "openapi specs",
+    up: (sql) => {
+      // `operations` is a JSON array of operationIds (NULL = all), `headers` a JSON object
+      sql.exec(`
+        CREATE TABLE IF NOT EXISTS openapi_specs (
+          name       TEXT PRIMARY KEY,
+          document   TEXT    NOT NULL,
+          base_url   TEXT,
+          operations TEXT,
+          headers    TEXT,
+          created_at INTEGER NOT NULL
+        )`);
+    },
+  },
+];
+
+/** Applies pending migrations; returns the versions that ran */
+export function migrate(storage: DurableObjectStorage): number[] {
+  const { sql } = storage;
+  sql.exec(`
+    CREATE TABLE IF NOT EXISTS _migrations (
+      version    INTEGER PRIMARY KEY,
+      name       TEXT    NOT NULL,
+      applied_at INTEGER NOT NULL
+    )`);
+
+  const applied = new Set(sql.exec<{ version: number }>(`SELECT version FROM _migrations`).toArray().map((r) => r.version));
+  const ran: number[] = [];
+
+  for (const m of MIGRATIONS) {
+    if (applied.has(m.version)) continue;
+    storage.transactionSync(() => {
+      m.up(sql);
+      sql.exec(`INSERT INTO _migrations (version, name, applied_at) VALUES (?, ?, ?)`, m.version, m.name, Date.now());
+    });
+    ran.push(m.version);
+  }
+  return ran;
+}
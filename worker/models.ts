@@ -0,0 +1,104 @@
+// Model catalog - the only models a session may select. Context budgeting,
+// synthesis mode, planner routing and the client's model picker all read from here.
+import type { SynthesisMode } from "./synthesis";
+
+export type ModelInfo = {
+  id: string;
+  name: string;
+  /** Tokens; rough figures, only used to budget history */
+  contextWindow: number;
+  charsPerToken: number;
+  /** Accepts `tools` and returns `tool_calls` */
+  functionCalling: boolean;
+  streaming: boolean;
+  /** Small models emitted placeholders like ".°N" - keep them on templates */
+  synthesis: SynthesisMode;
+};
+
+/** What the client gets in the `models` frame */
+export type ModelSummary = Pick<ModelInfo, "id" | "name" | "contextWindow" | "functionCalling" | "streaming">;
+
+export const DEFAULT_MODEL = "@cf/meta/llama-4-scout-17b-16e-instruct";
+
+export const MODELS: readonly ModelInfo[] = [
+  {
+    id: "@cf/meta/llama-4-scout-17b-16e-instruct",
+    name: "Llama 4 Scout 17B",
+    contextWindow: 131_000,
+    charsPerToken: 4,
+    functionCalling: true,
+    streaming: true,
+    synthesis: "verified",
+  },
+  {
+    id: "@cf/meta/llama-3.3-70b-instruct-fp8-fast",
+    name: "Llama 3.3 70B (fast)",
+    contextWindow: 24_000,
+    charsPerToken: 4,
+    functionCalling: true,
+    streaming: true,
+    synthesis: "verified",
+  },
+  {
+    id: "@cf/mistralai/mistral-small-3.1-24b-instruct",
+    name: "Mistral Small 3.1 24B",
+    contextWindow: 128_000,
+    charsPerToken: 3.5,
+    functionCalling: true,
+    streaming: true,
+    synthesis: "verified",
+  },
+  {
+    id: "@cf/meta/llama-3.1-8b-instruct-fast",
+    name: "Llama 3.1 8B (fast)",
+    contextWindow: 128_000,
+    charsPerToken: 4,
+    functionCalling: false,
+    streaming: true,
+    synthesis: "template",
+  },
+  {
+    id: "@cf/meta/llama-3.1-8b-instruct",
+    name: "Llama 3.1 8B",
+    contextWindow: 7_968,
+    charsPerToken: 4,
+    functionCalling: false,
+    streaming: true,
+    synthesis: "template",
+  },
+  {
+    id: "@cf/meta/llama-3.2-3b-instruct",
+    name: "Llama 3.2 3B",
+    contextWindow: 128_000,
+    charsPerToken: 4,
+    functionCalling: false,
+    streaming: true,
+    synthesis: "template",
+  },
+];
+
+export function findModel(id: unknown): ModelInfo | undefined {
+  return MODELS.find((m) => m.id === id);
+}
+
+export function modelCatalog(): ModelSummary[] {
+  return MODELS.map(({ id, name, contextWindow, functionCalling, streaming }) => ({
+    id,
+    name,
+    contextWindow,
+    functionCalling,
+    streaming,
+  }));
+}
+
+/**
+ * Model that plans tool calls for a chat model: the model itself if it can call
+ * tools, otherwise `fallback` (PLANNER_MODEL, default DEFAULT_MODEL).
+ * null = no tool planning ("none", or a fallback that can't call tools either).
+ */
+export function plannerModelFor(chatModel: string, fallback: string | undefined): string | null {
+  if (findModel(chatModel)?.functionCalling) return chatModel;
+  if (fallback === "none") return null;
+  const planner = findModel(fallback || DEFAULT_MODEL);
+  return planner?.functionCalling ? planner.id : null;
+}
@@ -0,0 +1,269 @@
+// OpenAI-compatible endpoints (`/v1/models`, `/v1/chat/completions`) for clients that
+// already speak the chat completions format. A completion is one agent turn, run through
+// the session's HTTP chat API, so the agent plans and calls its own tools; they show up
+// in the reply as quoted lines, not as `tool_calls` for the client to run.
+// The agent keeps the conversation, so only the last user message is sent to it. Completions
+// run in the session's API thread, which tabs on the session don't have open unless they
+// pick it; a request with no assistant messages yet (a new conversation in the client)
+// starts a new one. `model` applies to that completion only.
+// The session token is the API key: completions run in its session.
+import { getAgentByName } from "agents";
+import type { AgentChatReply } from "./agent";
+import type { McpServerEnv } from "./mcpServer";
+import { findModel, modelCatalog } from "./models";
+import { parseServerFrame, type ServerFrame } from "./protocol";
+
+type ChatCompletionRequest = {
+  model?: unknown;
+  messages?: unknown;
+  stream?: unknown;
+  stream_options?: { include_usage?: unknown } | null;
+};
+
+type CompletionUsage = { prompt_tokens: number; completion_tokens: number; total_tokens: number };
+
+/** Rejected request; becomes an OpenAI-style `{ error }` body */
+class CompletionError extends Error {
+  readonly status: number;
+  readonly param: string | null;
+
+  constructor(status: number, message: string, param: string | null = null) {
+    super(message);
+    this.name = "CompletionError";
+    this.status = status;
+    this.param = param;
+  }
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } });
+
+/** A failed turn, as the `{ error }` body of a response or a stream chunk */
+const serverError = (message: string) => ({ error: { message, type: "server_error", param: null, code: null } });
+
+const errorResponse = (e: CompletionError) =>
+  json(
+    { error: { message: e.message, type: e.status === 401 ? "authentication_error" : "invalid_request_error", param: e.param, code: null } },
+    e.status
+  );
+
+function listModels() {
+  return {
+    object: "list",
+    data: modelCatalog().map((m) => ({ id: m.id, object: "model", created: 0, owned_by: "workers-ai" })),
+  };
+}
+
+// String content, or the text parts of a content array (images and audio are dropped)
+function messageText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .map((part) => (part && typeof part === "object" && part.type === "text" && typeof part.text === "string" ? part.text : ""))
+    .filter(Boolean)
+    .join("\n");
+}
+
+// Request body → what the agent needs for the turn
+function parseCompletion(body: ChatCompletionRequest) {
+  if (typeof body.model !== "string" || !body.model) throw new CompletionError(400, "`model` is required", "model");
+  if (!findModel(body.model)) throw new CompletionError(404, `The model \`${body.model}\` does not exist`, "model");
+
+  const messages = Array.isArray(body.messages) ? (body.messages as { role?: unknown; content?: unknown }[]) : [];
+  const last = messages[messages.length - 1];
+  if (!last || last.role !== "user") throw new CompletionError(400, "The last message must be from the user", "messages");
+  const message = messageText(last.content).trim();
+  if (!message) throw new CompletionError(400, "The last user message has no text", "messages");
+
+  return {
+    model: body.model,
+    message,
+    newThread: !messages.some((m) => m.role === "assistant"),
+    stream: body.stream === true,
+    includeUsage: body.stream_options?.include_usage === true,
+  };
+}
+
+// Feeds each `event:`/`data:` pair of an SSE body to `onEvent`
+async function readEvents(body: ReadableStream<Uint8Array>, onEvent: (event: string, data: string) => void) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let idx: number;
+    while ((idx = buffer.indexOf("\n\n")) !== -1) {
+      const block = buffer.slice(0, idx);
+      buffer = buffer.slice(idx + 2);
+      let event = "message";
+      let data = "";
+      for (const line of block.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        if (line.startsWith("data:")) data += line.slice(5).trimStart();
+      }
+      onEvent(event, data);
+    }
+  }
+}
+
+type TurnEnd = { ok: true; reply: AgentChatReply } | { ok: false; message: string };
+
+// The agent's closing `result` or `error` event; one that doesn't parse is a failed turn too
+function turnEnd(event: "result" | "error", data: string): TurnEnd {
+  let body: unknown;
+  try {
+    body = JSON.parse(data);
+  } catch {
+    console.log("[openai] unreadable turn event", { event, length: data.length });
+    return { ok: false, message: "The agent sent an unreadable reply" };
+  }
+  const rec = (body ?? {}) as { message?: unknown; usage?: { promptTokens?: unknown; completionTokens?: unknown } };
+  if (event === "error") return { ok: false, message: typeof rec.message === "string" ? rec.message : "The turn failed" };
+  if (typeof rec.usage?.promptTokens !== "number" || typeof rec.usage.completionTokens !== "number") {
+    return { ok: false, message: "The agent sent an unreadable reply" };
+  }
+  return { ok: true, reply: body as AgentChatReply };
+}
+
+// The turn's frames as reply text: every message (tool preambles, the answer) as a
+// paragraph, and a quoted line per finished tool run
+function transcriber() {
+  let gap = "";
+  return (frame: ServerFrame): string => {
+    if (frame.type === "delta") {
+      const text = gap + frame.text;
+      gap = "";
+      return text;
+    }
+    if (frame.type === "done" || frame.type === "stopped") {
+      gap = "\n\n";
+      return "";
+    }
+    if (frame.type === "tool" && (frame.status === "done" || frame.status === "error")) {
+      const line = frame.status === "done" ? `> Used \`${frame.tool}\`` : `> \`${frame.tool}\` failed: ${frame.message}`;
+      const text = `${gap}${line}`;
+      gap = "\n\n";
+      return text;
+    }
+    return "";
+  };
+}
+
+const toUsage = ({ usage }: AgentChatReply): CompletionUsage => ({
+  prompt_tokens: usage.promptTokens,
+  completion_tokens: usage.completionTokens,
+  total_tokens: usage.promptTokens + usage.completionTokens,
+});
+
+async function completion(request: Request, env: McpServerEnv, session: string): Promise<Response> {
+  let body: ChatCompletionRequest;
+  try {
+    body = ((await request.json()) ?? {}) as ChatCompletionRequest;
+  } catch {
+    return errorResponse(new CompletionError(400, "The body must be JSON"));
+  }
+  let turn: ReturnType<typeof parseCompletion>;
+  try {
+    turn = parseCompletion(body);
+  } catch (e) {
+    if (e instanceof CompletionError) return errorResponse(e);
+    throw e;
+  }
+
+  console.log("[openai] completion", { session, model: turn.model, stream: turn.stream, newThread: turn.newThread });
+  const agent = await getAgentByName(env.AI_AGENT, session);
+  const upstream = await agent.fetch(
+    new Request(new URL(`/api/sessions/${session}/messages`, request.url), {
+      method: "POST",
+      headers: { "content-type": "application/json", accept: "text/event-stream" },
+      body: JSON.stringify({ message: turn.message, stream: true, model: turn.model, apiThread: true, newThread: turn.newThread }),
+    })
+  );
+  if (!upstream.ok || !upstream.body) {
+    const { error } = (await upstream.json().catch(() => ({}))) as { error?: string };
+    return errorResponse(new CompletionError(upstream.status || 502, error ?? "The agent did not answer"));
+  }
+
+  const id = `chatcmpl-${crypto.randomUUID()}`;
+  const created = Math.floor(Date.now() / 1000);
+  const transcribe = transcriber();
+
+  if (!turn.stream) {
+    let content = "";
+    let end = { ok: false, message: "The turn ended without a reply" } as TurnEnd;
+    try {
+      await readEvents(upstream.body, (event, data) => {
+        if (event === "result" || event === "error") end = turnEnd(event, data);
+        else {
+          const frame = parseServerFrame(data);
+          if (frame?.ok) content += transcribe(frame.frame);
+        }
+      });
+    } catch (e) {
+      console.log("[openai] reply failed", { message: e instanceof Error ? e.message : String(e) });
+      end = { ok: false, message: "The agent's reply was cut off" };
+    }
+    if (!end.ok) return json(serverError(end.message), 500);
+    return json({
+      id,
+      object: "chat.completion",
+      created,
+      model: turn.model,
+      choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+      usage: toUsage(end.reply),
+    });
+  }
+
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  const writer = writable.getWriter();
+  const encoder = new TextEncoder();
+  const send = (data: unknown) =>
+    void writer.write(encoder.encode(`data: ${typeof data === "string" ? data : JSON.stringify(data)}\n\n`)).catch(() => {});
+  const chunk = (delta: Record<string, unknown>, finish: string | null = null) =>
+    send({ id, object: "chat.completion.chunk", created, model: turn.model, choices: [{ index: 0, delta, finish_reason: finish }] });
+
+  chunk({ role: "assistant", content: "" });
+  let ended = false;
+  void readEvents(upstream.body, (event, data) => {
+    if (event === "result" || event === "error") {
+      const end = turnEnd(event, data);
+      ended = true;
+      if (!end.ok) return send(serverError(end.message));
+      chunk({}, "stop");
+      if (turn.includeUsage) {
+        send({ id, object: "chat.completion.chunk", created, model: turn.model, choices: [], usage: toUsage(end.reply) });
+      }
+    } else {
+      const frame = parseServerFrame(data);
+      const content = frame?.ok ? transcribe(frame.frame) : "";
+      if (content) chunk({ content });
+    }
+  })
+    .catch((e) => console.log("[openai] stream failed", { message: e instanceof Error ? e.message : String(e) }))
+    .finally(() => {
+      // A stream that broke off or closed early still says so before `[DONE]`
+      if (!ended) send(serverError("The agent's reply was cut off"));
+      send("[DONE]");
+      void writer.close().catch(() => {});
+    });
+
+  return new Response(readable, { headers: { "content-type": "text/event-stream", "cache-control": "no-cache" } });
+}
+
+/** `/v1/*` handler: GET /v1/models and POST /v1/chat/completions (which needs the caller's verified `session`) */
+export async function handleOpenAiRequest(request: Request, env: McpServerEnv, session: string | null): Promise<Response> {
+  const path = new URL(request.url).pathname.replace(/\/$/, "");
+  if (path === "/v1/models") {
+    if (request.method !== "GET") return new Response("Method Not Allowed", { status: 405, headers: { Allow: "GET" } });
+    return json(listModels());
+  }
+  if (path === "/v1/chat/completions") {
+    if (request.method !== "POST") return new Response("Method Not Allowed", { status: 405, headers: { Allow: "POST" } });
+    if (!session) return errorResponse(new CompletionError(401, "Pass a session token from POST /api/session as the API key"));
+    return completion(request, env, session);
+  }
+  return errorResponse(new CompletionError(404, `Unknown endpoint: ${path}`));
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import { ApiSpecError, apiTools, parseApiSpec, type ApiSpecConfig } from "./openapi";
+
+const petstore = {
+  openapi: "3.0.3",
+  info: { title: "Pets" },
+  servers: [{ url: "https://{region}.pets.example/v1/", variables: { region: { default: "eu" } } }],
+  paths: {
+    "/pets/{petId}": {
+      parameters: [{ $ref: "#/components/parameters/PetId" }, { name: "verbose", in: "query", schema: { type: "boolean" } }],
+      get: {
+        operationId: "getPet",
+        summary: "Get a pet\nwith details",
+        parameters: [{ name: "verbose", in: "query", required: true, schema: { type: "string", enum: ["yes", "no"] } }],
+      },
+      put: {
+        parameters: [{ name: "X-Api-Key", in: "header", schema: { type: "string" } }],
+        requestBody: { required: true, content: { "application/json": { schema: { $ref: "#/components/schemas/Pet" } } } },
+      },
+      delete: { operationId: "deletePet", requestBody: { content: { "text/plain": { schema: { type: "string" } } } } },
+    },
+    "/pets": {
+      get: {
+        operationId: "listPets",
+        parameters: [
+          { name: "limit", in: "query", schema: { type: "integer" } },
+          { name: "tag", in: "cookie", schema: { type: "string" } },
+        ],
+      },
+    },
+  },
+  components: {
+    parameters: { PetId: { name: "petId", in: "path", schema: { type: "string" }, description: "The pet" } },
+    schemas: {
+      Pet: { type: "object", required: ["name"], properties: { name: { type: "string" }, owner: { $ref: "#/components/schemas/Owner" } } },
+      Owner: { type: "object", properties: { pet: { $ref: "#/components/schemas/Pet" } } },
+    },
+  },
+};
+
+const config = (overrides: Partial<ApiSpecConfig> = {}): ApiSpecConfig => ({
+  name: "pets",
+  document: JSON.stringify(petstore),
+  ...overrides,
+});
+
+const operation = (spec: ReturnType<typeof parseApiSpec>, id: string) => spec.operations.find((op) => op.id === id)!;
+
+describe("parseApiSpec", () => {
+  it("reads the title and the first server, with its variables' defaults", () => {
+    const spec = parseApiSpec(config());
+    expect(spec.title).toBe("Pets");
+    expect(spec.baseUrl).toBe("https://eu.pets.example/v1");
+    expect(parseApiSpec(config({ baseUrl: "http://localhost:8080/api/" })).baseUrl).toBe("http://localhost:8080/api");
+  });
+
+  it("builds operations, naming those without an operationId", () => {
+    const spec = parseApiSpec(config());
+    expect(spec.operations.map((op) => `${op.method} ${op.id}`)).toEqual(["GET getPet", "PUT put_pets_petid", "GET listPets"]);
+    expect(operation(spec, "getPet").summary).toBe("Get a pet");
+  });
+
+  it("resolves $refs and lets operation parameters replace path-level ones", () => {
+    const getPet = operation(parseApiSpec(config()), "getPet");
+    expect(getPet.params).toEqual([
+      { name: "petId", in: "path", required: true, schema: { type: "string" }, description: "The pet" },
+      { name: "verbose", in: "query", required: true, schema: { type: "string", enum: ["yes", "no"] }, description: undefined },
+    ]);
+    expect(getPet.inputSchema.required).toEqual(["petId", "verbose"]);
+  });
+
+  it("inlines body schemas and ends reference cycles", () => {
+    const put = operation(parseApiSpec(config()), "put_pets_petid");
+    expect(put.body?.required).toBe(true);
+    const pet = put.body!.schema as { properties: { owner: { properties: Record<string, unknown> } } };
+    expect(pet.properties.owner.properties.pet).toMatchObject({ type: "object" });
+    expect(JSON.stringify(put.body)).not.toContain("$ref");
+  });
+
+  it("leaves out cookie parameters and header parameters the config sets", () => {
+    expect(operation(parseApiSpec(config()), "listPets").params.map((p) => p.name)).toEqual(["limit"]);
+    expect(operation(parseApiSpec(config()), "put_pets_petid").params.map((p) => p.name)).toContain("X-Api-Key");
+    const spec = parseApiSpec(config({ headers: { "x-api-key": "{{secret:PETS_KEY}}" } }));
+    expect(operation(spec, "put_pets_petid").params.map((p) => p.name)).toEqual(["petId", "verbose"]);
+  });
+
+  it("keeps only the selected operations", () => {
+    expect(parseApiSpec(config({ operations: ["listPets"] })).operations.map((op) => op.id)).toEqual(["listPets"]);
+    expect(() => parseApiSpec(config({ operations: ["listPets", "nope"] }))).toThrow("Unknown operations: nope");
+  });
+
+  it("rejects documents it can't use", () => {
+    const reject = (document: unknown, message: string) => {
+      const cfg = config({ document: typeof document === "string" ? document : JSON.stringify(document) });
+      expect(() => parseApiSpec(cfg)).toThrow(ApiSpecError);
+      expect(() => parseApiSpec(cfg)).toThrow(message);
+    };
+    reject("{", "not valid JSON");
+    reject({ swagger: "2.0", paths: {} }, "Only OpenAPI 3.x");
+    reject({ openapi: "3.1.0" }, "no paths");
+    reject({ ...petstore, servers: [{ url: "/relative" }] }, "no absolute http(s) server URL");
+    reject({ ...petstore, servers: [{ url: "ftp://pets.example" }] }, "no absolute http(s) server URL");
+    reject({ ...petstore, paths: { "/x": { get: { requestBody: { content: {} } } } } }, "no usable operations");
+  });
+});
+
+describe("API tool args", () => {
+  const tools = apiTools([parseApiSpec(config())], () => undefined);
+  const validate = (id: string, raw: unknown) => tools.find((t) => t.name === `api_pets__${id}`)!.validateArgs(raw);
+
+  it("coerces numbers and booleans sent as strings", () => {
+    expect(validate("listPets", { limit: "5" })).toEqual({ limit: 5 });
+    expect(validate("listPets", {})).toEqual({});
+    expect(validate("listPets", null)).toEqual({});
+    expect(validate("listPets", { limit: "five" })).toBeNull();
+    expect(validate("listPets", { limit: "2.5" })).toBeNull();
+  });
+
+  it("checks required keys, enums and bodies", () => {
+    expect(validate("getPet", { petId: "7", verbose: "yes" })).toEqual({ petId: "7", verbose: "yes" });
+    expect(validate("getPet", { petId: "7" })).toBeNull();
+    expect(validate("getPet", { petId: "7", verbose: "maybe" })).toBeNull();
+    expect(validate("put_pets_petid", { petId: "7", verbose: true, body: { name: "Rex" } })).not.toBeNull();
+    expect(validate("put_pets_petid", { petId: "7", verbose: true, body: {} })).toBeNull();
+    expect(validate("getPet", ["7"])).toBeNull();
+  });
+
+  it("rejects path values that aren't a single segment", () => {
+    for (const petId of ["", ".", ".."]) expect(validate("getPet", { petId, verbose: "no" })).toBeNull();
+    expect(validate("getPet", { petId: "..a", verbose: "no" })).not.toBeNull();
+    expect(validate("getPet", { petId: "a/b", verbose: "no" })).not.toBeNull();
+  });
+});
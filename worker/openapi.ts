@@ -0,0 +1,462 @@
+// User-defined HTTP tools - operations picked from an OpenAPI 3 document that an
+// admin registered on a session, adapted into registry entries the same way as
+// the MCP tools (planner, progress events, persistence, facts).
+import { httpFetch, toolFailure } from "./tools/http";
+import { defineTool, type RegisteredTool, type ToolContext, type ToolFailure } from "./tools/types";
+
+/** Planner-facing name: `api_<document>__<operationId>` */
+export type ApiToolName = `api_${string}`;
+
+export type ApiToolResult =
+  | {
+      ok: true;
+      api: string;
+      operation: string;
+      method: string;
+      url: string;
+      status: number;
+      data: unknown;
+      /** `data` is the clipped response text */
+      truncated?: boolean;
+    }
+  | ToolFailure;
+
+/** Registration request, as stored in `openapi_specs` */
+export type ApiSpecConfig = {
+  name: string;
+  /** The OpenAPI document as JSON text */
+  document: string;
+  /** Overrides the document's first server URL */
+  baseUrl?: string;
+  /** operationIds to expose; all operations when absent */
+  operations?: string[];
+  /** Sent with every call; values may contain `{{secret:NAME}}` */
+  headers?: Record<string, string>;
+};
+
+/** List entry, as sent to the client; header values stay in the DO */
+export type ApiSpecInfo = { name: string; title: string; baseUrl: string; tools: string[]; headers: string[] };
+
+type JsonSchema = Record<string, unknown>;
+
+type ApiParam = { name: string; in: "path" | "query" | "header"; required: boolean; schema: JsonSchema; description?: string };
+
+type ApiOperation = {
+  id: string;
+  method: string;
+  path: string;
+  summary: string;
+  params: ApiParam[];
+  body?: { required: boolean; schema: JsonSchema };
+  inputSchema: JsonSchema;
+};
+
+/** A parsed, ready-to-call document */
+export type ApiSpec = {
+  name: string;
+  title: string;
+  baseUrl: string;
+  headers: Record<string, string>;
+  operations: ApiOperation[];
+};
+
+/** Thrown for documents or configs that can't be registered; the message is shown to the admin */
+export class ApiSpecError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ApiSpecError";
+  }
+}
+
+export const MAX_DOCUMENT_BYTES = 512 * 1024;
+// Every tool costs planner prompt space
+const MAX_OPERATIONS = 20;
+const MAX_REF_DEPTH = 8;
+const MAX_SCHEMA_DEPTH = 6;
+const CALL_TIMEOUT_MS = 15_000;
+const MAX_DATA_CHARS = 16_000;
+const MAX_NAME_LENGTH = 64; // Workers AI function names
+const METHODS = ["get", "put", "post", "delete", "patch"];
+// Safe to repeat after a timeout or 5xx
+const IDEMPOTENT = new Set(["GET", "PUT", "DELETE"]);
+
+export const API_NAME_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+const SECRET_REF = /\{\{\s*secret:([A-Za-z0-9_]+)\s*\}\}/g;
+
+const isObj = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+const clip = (s: string, max: number) => (s.length > max ? s.slice(0, max) + "…" : s);
+const slug = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "");
+
+export function apiToolName(api: string, operation: string): ApiToolName {
+  return `api_${slug(api).slice(0, 20)}__${operation.replace(/[^A-Za-z0-9_-]/g, "_")}`.slice(0, MAX_NAME_LENGTH) as ApiToolName;
+}
+
+export function isApiToolName(name: unknown): name is ApiToolName {
+  return typeof name === "string" && name.startsWith("api_");
+}
+
+/* ----------------------------- document ------------------------------ */
+
+/** Local JSON pointer ("#/components/schemas/Pet") */
+function lookup(doc: unknown, ref: string): unknown {
+  if (!ref.startsWith("#/")) return undefined;
+  let node = doc;
+  for (const part of ref.slice(2).split("/")) {
+    if (!isObj(node)) return undefined;
+    node = node[part.replace(/~1/g, "/").replace(/~0/g, "~")];
+  }
+  return node;
+}
+
+/** Inlines local $refs; cycles and remote refs end as {} */
+function deref(node: unknown, doc: unknown, depth = 0): unknown {
+  if (Array.isArray(node)) return node.map((n) => deref(n, doc, depth));
+  if (!isObj(node)) return node;
+  if (typeof node.$ref === "string") {
+    const target = depth < MAX_REF_DEPTH ? lookup(doc, node.$ref) : undefined;
+    return target === undefined ? {} : deref(target, doc, depth + 1);
+  }
+  return Object.fromEntries(Object.entries(node).map(([k, v]) => [k, deref(v, doc, depth)]));
+}
+
+function resolveBaseUrl(doc: Record<string, unknown>, override: string | undefined): string {
+  let url = override;
+  if (!url) {
+    const [server] = Array.isArray(doc.servers) ? doc.servers : [];
+    if (isObj(server) && typeof server.url === "string") {
+      // Server variables take their defaults
+      const vars = isObj(server.variables) ? server.variables : {};
+      url = server.url.replace(/\{([^}]+)\}/g, (_, v: string) => {
+        const def = isObj(vars[v]) ? (vars[v] as { default?: unknown }).default : undefined;
+        return typeof def === "string" ? def : "";
+      });
+    }
+  }
+  try {
+    const parsed = new URL(url ?? "");
+    if (parsed.protocol !== "https:" && parsed.protocol !== "http:") throw new Error();
+    return parsed.toString().replace(/\/+$/, "");
+  } catch {
+    throw new ApiSpecError("The document has no absolute http(s) server URL - pass `baseUrl`");
+  }
+}
+
+function collectParams(raw: unknown[], doc: unknown): ApiParam[] {
+  return raw
+    .map((p) => deref(p, doc))
+    .filter((p): p is Record<string, unknown> => isObj(p) && typeof p.name === "string")
+    .filter((p) => p.in === "path" || p.in === "query" || p.in === "header")
+    .map((p) => ({
+      name: p.name as string,
+      in: p.in as ApiParam["in"],
+      required: p.in === "path" || p.required === true,
+      schema: isObj(p.schema) ? p.schema : { type: "string" },
+      description: typeof p.description === "string" ? p.description : undefined,
+    }));
+}
+
+function jsonBodySchema(requestBody: unknown, doc: unknown): ApiOperation["body"] | null {
+  const body = deref(requestBody, doc);
+  if (!isObj(body) || !isObj(body.content)) return null;
+  const type = Object.keys(body.content).find((t) => t === "application/json" || t.endsWith("+json"));
+  const media = type ? body.content[type] : undefined;
+  if (!isObj(media)) return null;
+  return { required: body.required === true, schema: isObj(media.schema) ? media.schema : { type: "object" } };
+}
+
+function inputSchemaFor(params: ApiParam[], body: ApiOperation["body"]): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+  for (const p of params) {
+    properties[p.name] = p.description ? { ...p.schema, description: p.description } : p.schema;
+    if (p.required) required.push(p.name);
+  }
+  if (body) {
+    properties.body = { ...body.schema, description: "JSON request body" };
+    if (body.required) required.push("body");
+  }
+  return { type: "object", properties, required };
+}
+
+/**
+ * Checks a document and builds its operations. Throws ApiSpecError when it
+ * isn't OpenAPI 3, has no usable server URL, or selects unknown or too many
+ * operations.
+ */
+export function parseApiSpec(cfg: ApiSpecConfig): ApiSpec {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(cfg.document);
+  } catch {
+    throw new ApiSpecError("The document is not valid JSON");
+  }
+  if (!isObj(doc) || typeof doc.openapi !== "string" || !doc.openapi.startsWith("3.")) {
+    throw new ApiSpecError("Only OpenAPI 3.x documents are supported");
+  }
+  if (!isObj(doc.paths)) throw new ApiSpecError("The document has no paths");
+
+  const info = isObj(doc.info) ? doc.info : {};
+  const title = typeof info.title === "string" && info.title.trim() ? info.title.trim() : cfg.name;
+  const baseUrl = resolveBaseUrl(doc, cfg.baseUrl);
+  // Header params the deployment sets itself (e.g. Authorization) aren't the planner's to fill
+  const configured = new Set(Object.keys(cfg.headers ?? {}).map((h) => h.toLowerCase()));
+
+  const all: ApiOperation[] = [];
+  for (const [path, rawItem] of Object.entries(doc.paths)) {
+    const item = deref(rawItem, doc);
+    if (!isObj(item)) continue;
+    const shared = Array.isArray(item.parameters) ? item.parameters : [];
+
+    for (const method of METHODS) {
+      const op = item[method];
+      if (!isObj(op)) continue;
+      const id = typeof op.operationId === "string" && op.operationId ? op.operationId : `${method}_${slug(path)}`;
+
+      // Operation-level parameters replace path-level ones with the same name and location
+      const own = collectParams(Array.isArray(op.parameters) ? op.parameters : [], doc);
+      const params = [...collectParams(shared, doc).filter((p) => !own.some((o) => o.name === p.name && o.in === p.in)), ...own]
+        .filter((p) => p.in !== "header" || !configured.has(p.name.toLowerCase()));
+
+      let body: ApiOperation["body"];
+      if (op.requestBody !== undefined) {
+        const json = jsonBodySchema(op.requestBody, doc);
+        if (!json) {
+          console.log("[openapi] skipping operation without a JSON body", { api: cfg.name, id });
+          continue;
+        }
+        body = json;
+      }
+
+      const text = [op.summary, op.description].find((t): t is string => typeof t === "string" && !!t.trim());
+      all.push({
+        id,
+        method: method.toUpperCase(),
+        path,
+        summary: text ? text.trim().split("\n")[0] : `${method.toUpperCase()} ${path}`,
+        params,
+        body,
+        inputSchema: inputSchemaFor(params, body),
+      });
+    }
+  }
+
+  let operations = all;
+  if (cfg.operations?.length) {
+    const unknown = cfg.operations.filter((id) => !all.some((op) => op.id === id));
+    if (unknown.length) throw new ApiSpecError(`Unknown operations: ${unknown.join(", ")}`);
+    operations = all.filter((op) => cfg.operations!.includes(op.id));
+  }
+  if (!operations.length) throw new ApiSpecError("The document has no usable operations");
+  if (operations.length > MAX_OPERATIONS) {
+    throw new ApiSpecError(`${operations.length} operations found - select at most ${MAX_OPERATIONS} with \`operations\``);
+  }
+
+  return { name: cfg.name, title, baseUrl, headers: cfg.headers ?? {}, operations };
+}
+
+export function apiSpecInfo(spec: ApiSpec): ApiSpecInfo {
+  return {
+    name: spec.name,
+    title: spec.title,
+    baseUrl: spec.baseUrl,
+    tools: spec.operations.map((op) => apiToolName(spec.name, op.id)),
+    headers: Object.keys(spec.headers),
+  };
+}
+
+/* ----------------------------- arguments ----------------------------- */
+
+/** Type check against the generated schema (types, required keys, enums); returns the first problem */
+function checkValue(schema: JsonSchema, v: unknown, at: string, depth = 0): string | null {
+  if (depth > MAX_SCHEMA_DEPTH) return null;
+  if (Array.isArray(schema.enum) && !schema.enum.includes(v)) return `${at} must be one of ${schema.enum.join(", ")}`;
+
+  switch (schema.type) {
+    case "string":
+      return typeof v === "string" ? null : `${at} must be a string`;
+    case "integer":
+      return Number.isInteger(v) ? null : `${at} must be an integer`;
+    case "number":
+      return typeof v === "number" && Number.isFinite(v) ? null : `${at} must be a number`;
+    case "boolean":
+      return typeof v === "boolean" ? null : `${at} must be true or false`;
+    case "array": {
+      if (!Array.isArray(v)) return `${at} must be an array`;
+      if (!isObj(schema.items)) return null;
+      for (const [i, item] of v.entries()) {
+        const err = checkValue(schema.items, item, `${at}[${i}]`, depth + 1);
+        if (err) return err;
+      }
+      return null;
+    }
+    case "object": {
+      if (!isObj(v)) return `${at} must be an object`;
+      const required = Array.isArray(schema.required) ? (schema.required as string[]) : [];
+      const missing = required.find((k) => v[k] === undefined);
+      if (missing) return `${at}.${missing} is required`;
+      for (const [k, s] of Object.entries(isObj(schema.properties) ? schema.properties : {})) {
+        if (v[k] === undefined || !isObj(s)) continue;
+        const err = checkValue(s, v[k], `${at}.${k}`, depth + 1);
+        if (err) return err;
+      }
+      return null;
+    }
+  }
+  return null;
+}
+
+/** Planners often send "5" or "true" for parameters; coerce those before checking */
+function coerce(schema: JsonSchema, v: unknown): unknown {
+  if (typeof v !== "string") return v;
+  if ((schema.type === "integer" || schema.type === "number") && v.trim() && Number.isFinite(Number(v))) return Number(v);
+  if (schema.type === "boolean" && (v === "true" || v === "false")) return v === "true";
+  return v;
+}
+
+function validateApiArgs(op: ApiOperation, raw: unknown): Record<string, unknown> | null {
+  const args = raw === undefined || raw === null ? {} : raw;
+  if (!isObj(args)) return null;
+  const coerced = Object.fromEntries(
+    Object.entries(args).map(([k, v]) => [k, coerce(op.params.find((p) => p.name === k)?.schema ?? {}, v)])
+  );
+  // `.`/`..` survive encodeURIComponent and the URL would resolve them to another path
+  const badPath = op.params.find((p) => p.in === "path" && ["", ".", ".."].includes(paramText(coerced[p.name] ?? "")));
+  const err = checkValue(op.inputSchema, coerced, "args") ?? (badPath ? `args.${badPath.name} must be a path segment` : null);
+  if (err) {
+    console.log("[openapi] invalid args", { operation: op.id, err });
+    return null;
+  }
+  return coerced;
+}
+
+/* ------------------------------ calling ------------------------------ */
+
+/** Fills `{{secret:NAME}}` from the secrets this deployment allows; throws for any other name */
+export function injectSecrets(headers: Record<string, string>, secret: (name: string) => string | undefined): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).map(([k, v]) => [
+      k,
+      v.replace(SECRET_REF, (_, name: string) => {
+        const value = secret(name);
+        if (value === undefined) throw new ApiSpecError(`Secret ${name} is not available to API tools`);
+        return value;
+      }),
+    ])
+  );
+}
+
+function paramText(v: unknown): string {
+  return typeof v === "string" ? v : JSON.stringify(v);
+}
+
+async function callOperation(
+  spec: ApiSpec,
+  op: ApiOperation,
+  args: Record<string, unknown>,
+  secret: (name: string) => string | undefined,
+  ctx: ToolContext
+): Promise<ApiToolResult> {
+  const what = `${spec.title} ${op.id}`;
+  try {
+    const path = op.path.replace(/\{([^}]+)\}/g, (_, name: string) => encodeURIComponent(paramText(args[name] ?? "")));
+    const url = new URL(spec.baseUrl + path);
+    const headers: Record<string, string> = { Accept: "application/json", ...injectSecrets(spec.headers, secret) };
+
+    for (const p of op.params) {
+      const v = args[p.name];
+      if (v === undefined) continue;
+      if (p.in === "query") {
+        for (const item of Array.isArray(v) ? v : [v]) url.searchParams.append(p.name, paramText(item));
+      }
+      if (p.in === "header") headers[p.name] = paramText(v);
+    }
+
+    let body: string | undefined;
+    if (op.body && args.body !== undefined) {
+      body = JSON.stringify(args.body);
+      headers["Content-Type"] = "application/json";
+    }
+
+    ctx.step("request", `${op.method} ${url.host}${url.pathname}…`);
+    const r = await httpFetch(url.toString(), {
+      ctx,
+      method: op.method,
+      body,
+      headers,
+      timeoutMs: CALL_TIMEOUT_MS,
+      retries: IDEMPOTENT.has(op.method) ? 1 : 0,
+    });
+
+    const text = await r.text();
+    let data: unknown = text;
+    if ((r.headers.get("content-type") ?? "").includes("json") && text) {
+      try {
+        data = JSON.parse(text);
+      } catch {
+        return { ok: false, code: "malformed", error: `${what} sent invalid JSON` };
+      }
+    }
+    const truncated = text.length > MAX_DATA_CHARS;
+    return {
+      ok: true,
+      api: spec.name,
+      operation: op.id,
+      method: op.method,
+      url: url.toString(),
+      status: r.status,
+      data: truncated ? clip(text, MAX_DATA_CHARS) : data,
+      ...(truncated ? { truncated } : {}),
+    };
+  } catch (e) {
+    if (e instanceof ApiSpecError) return { ok: false, error: e.message };
+    return toolFailure(e, what);
+  }
+}
+
+/* ------------------------------ results ------------------------------ */
+
+const dataText = (data: unknown) => (typeof data === "string" ? data : JSON.stringify(data, null, 2));
+
+export function summarizeApi(result: ApiToolResult): string {
+  if (!result.ok) return `The API call failed: ${result.error}`;
+  const text = dataText(result.data).trim();
+  return text ? `${result.operation} returned:\n\n${clip(text, 600)}` : `${result.operation} succeeded (HTTP ${result.status}).`;
+}
+
+export function apiFacts(result: ApiToolResult): string {
+  if (!result.ok) return `API call failed: ${result.error}`;
+  return (
+    `Result of ${result.method} ${result.url} (operation "${result.operation}" of API "${result.api}"), HTTP ${result.status}:\n` +
+    (clip(dataText(result.data), 3000) || "(empty)")
+  );
+}
+
+/**
+ * Registry entries for every selected operation of the registered documents.
+ * `secret` resolves `{{secret:NAME}}` header references at call time.
+ */
+export function apiTools(specs: readonly ApiSpec[], secret: (name: string) => string | undefined): RegisteredTool<ApiToolName, ApiToolResult>[] {
+  return specs.flatMap((spec) =>
+    spec.operations.map((op) => {
+      const name = apiToolName(spec.name, op.id);
+      return defineTool({
+        name,
+        title: `${op.id} (${spec.title})`,
+        description: `${op.summary} [API: ${spec.title}]`,
+        plannerHint: `${op.summary} (${op.method} ${op.path} on ${spec.title})`,
+        schema: { type: "function", function: { name, description: op.summary, parameters: op.inputSchema } },
+        steps: [
+          { key: "plan", label: "Understand request" },
+          { key: "request", label: `Call ${spec.title}` },
+          { key: "final", label: "Finalize" },
+        ],
+        preamble: `Let me ask ${spec.title}…`,
+        failureMessage: `${spec.title} couldn't complete that. Please try again.`,
+        validateArgs: (raw) => validateApiArgs(op, raw),
+        execute: (args, ctx) => callOperation(spec, op, args, secret, ctx),
+        summarize: summarizeApi,
+        facts: apiFacts,
+      });
+    })
+  );
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { PROTOCOL_VERSION, encodeFrame, parseClientFrame, parseServerFrame } from "./protocol";
+
+const wire = (frame: Record<string, unknown>) => JSON.stringify({ v: PROTOCOL_VERSION, ...frame });
+
+describe("parseClientFrame", () => {
+  it("accepts a frame with its request id", () => {
+    expect(parseClientFrame(wire({ type: "chat", text: "hi", requestId: "r-1" }))).toEqual({
+      ok: true,
+      frame: { type: "chat", text: "hi" },
+      requestId: "r-1",
+      seq: undefined,
+    });
+  });
+
+  it("round-trips encodeFrame", () => {
+    const parsed = parseClientFrame(encodeFrame({ type: "edit", messageId: 3, text: "again" }, { requestId: "abc" }));
+    expect(parsed).toMatchObject({ ok: true, frame: { type: "edit", messageId: 3, text: "again" }, requestId: "abc" });
+  });
+
+  it("drops fields the frame type doesn't declare", () => {
+    const parsed = parseClientFrame(wire({ type: "stop", extra: true }));
+    expect(parsed.ok && parsed.frame).toEqual({ type: "stop" });
+  });
+
+  it("rejects what isn't a frame", () => {
+    expect(parseClientFrame("{nope")).toMatchObject({ ok: false, code: "bad_frame" });
+    expect(parseClientFrame(wire({ text: "no type" }))).toMatchObject({ ok: false, code: "bad_frame" });
+    expect(parseClientFrame(JSON.stringify([1, 2]))).toMatchObject({ ok: false, code: "bad_frame" });
+  });
+
+  it("rejects another protocol version", () => {
+    expect(parseClientFrame(JSON.stringify({ v: PROTOCOL_VERSION + 1, type: "stop" }))).toMatchObject({
+      ok: false,
+      code: "unsupported_version",
+    });
+    expect(parseClientFrame(JSON.stringify({ type: "stop" }))).toMatchObject({ ok: false, code: "unsupported_version" });
+  });
+
+  it("rejects bad request ids and seq numbers", () => {
+    expect(parseClientFrame(wire({ type: "stop", requestId: "has space" }))).toMatchObject({ ok: false, code: "bad_frame" });
+    expect(parseClientFrame(wire({ type: "stop", requestId: "x".repeat(65) }))).toMatchObject({ ok: false, code: "bad_frame" });
+    expect(parseClientFrame(wire({ type: "stop", seq: -1 }))).toMatchObject({ ok: false, code: "bad_frame" });
+    expect(parseClientFrame(wire({ type: "stop", seq: 1.5 }))).toMatchObject({ ok: false, code: "bad_frame" });
+  });
+
+  it("rejects unknown types and malformed fields", () => {
+    expect(parseClientFrame(wire({ type: "toString" }))).toMatchObject({ ok: false, message: "Unknown frame type: toString" });
+    expect(parseClientFrame(wire({ type: "chat", text: 5 }))).toMatchObject({ ok: false, message: "Malformed chat frame" });
+    expect(parseClientFrame(wire({ type: "chat", text: "hi", fresh: "yes" }))).toMatchObject({ ok: false });
+    expect(parseClientFrame(wire({ type: "mcp.add", name: "a", url: "https://x", headers: { a: 1 } }))).toMatchObject({ ok: false });
+  });
+});
+
+describe("parseServerFrame", () => {
+  it("accepts a turn frame with its seq", () => {
+    expect(parseServerFrame(wire({ type: "delta", text: "Hel", requestId: "r", seq: 2 }))).toEqual({
+      ok: true,
+      frame: { type: "delta", text: "Hel" },
+      requestId: "r",
+      seq: 2,
+    });
+  });
+
+  it("ignores the Agents SDK's own frames", () => {
+    expect(parseServerFrame(JSON.stringify({ type: "cf_agent_state", state: {} }))).toBeNull();
+  });
+
+  it("checks tool events by status", () => {
+    const base = { type: "tool", tool: "weather", callId: "c1" };
+    expect(parseServerFrame(wire({ ...base, status: "step", step: "fetch", cached: true }))).toMatchObject({
+      ok: true,
+      frame: { type: "tool", tool: "weather", callId: "c1", status: "step", step: "fetch", cached: true },
+    });
+    expect(parseServerFrame(wire({ ...base, status: "done", result: { ok: true } }))).toMatchObject({ ok: true });
+    expect(parseServerFrame(wire({ ...base, status: "done", result: { ok: false } }))).toMatchObject({ ok: false });
+    expect(parseServerFrame(wire({ ...base, status: "nope" }))).toMatchObject({ ok: false });
+    expect(parseServerFrame(wire({ type: "tool", status: "started", tool: "weather" }))).toMatchObject({ ok: false });
+  });
+
+  it("rejects malformed frames", () => {
+    expect(parseServerFrame(wire({ type: "resumed", running: "yes", replayed: 0 }))).toMatchObject({
+      ok: false,
+      message: "Malformed resumed frame",
+    });
+    expect(parseServerFrame(wire({ type: "threads", threads: [{ id: "t" }], activeId: "t" }))).toMatchObject({ ok: false });
+  });
+});
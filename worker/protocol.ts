@@ -0,0 +1,321 @@
+// WebSocket protocol between the browser client and the agent - every frame in both
+// directions, with validators used on both ends. Frames are JSON objects carrying the
+// protocol version `v` and, when they belong to a request, its `requestId`: the server
+// tags every frame of a turn (`saved`, `delta`, tool events, `done`/`stopped`,
+// `history`) with the id of the frame that started it, and numbers them with `seq`
+// (1, 2, …) so a client that reconnects can ask for the ones it missed.
+// Runtime code here ships to the browser too, so it imports types only.
+import type { ToolEvent, ToolManifest } from "./tools";
+import type { ModelSummary } from "./models";
+import type { McpServerInfo } from "./mcp";
+import type { ApiSpecInfo } from "./openapi";
+
+/** Bumped on incompatible frame changes; a mismatched client gets `unsupported_version` */
+export const PROTOCOL_VERSION = 1;
+
+/** Session ids (the agent instance name): the browser's UUIDs, or names picked by API callers */
+export const SESSION_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/* ------------------------------ shared shapes ------------------------------ */
+
+/**
+ * Message of the active branch. Tool rows carry the tool name and their JSON-encoded
+ * result as `content`; `siblings` lists the alternatives at this point of the tree
+ * (edits/regenerations), only when there are several.
+ */
+export type WireMessage = {
+  id: number;
+  role: "user" | "assistant" | "tool";
+  content: string;
+  ts: number;
+  tool?: string;
+  siblings?: number[];
+};
+
+/** Session state, as synced to the client */
+export type SessionState = {
+  model: string;
+  threadId: string; // active thread
+  messages: WireMessage[]; // active thread's current branch, root to head
+  summary: { text: string; throughTs: number } | null; // covers messages with ts <= throughTs
+  createdAt: number;
+  expiresAt: number;
+};
+
+/** Thread list entry */
+export type ThreadInfo = { id: string; title: string; createdAt: number; updatedAt: number };
+
+/* ------------------------------ client → server ----------------------------- */
+
+export type ClientFrame =
+  /** `fresh` bypasses the tool cache for this turn */
+  | { type: "chat"; text: string; fresh?: boolean }
+  /** Run `tool` with exact `args` (a choice made in a tool card); `text` is saved as the user's line */
+  | { type: "tool.run"; tool: string; args: unknown; text: string }
+  | { type: "edit"; messageId: number; text: string }
+  | { type: "regenerate"; messageId: number; fresh?: boolean }
+  | { type: "branch"; messageId: number }
+  | { type: "stop" }
+  | { type: "reset" }
+  | { type: "model"; model: string }
+  | { type: "models" }
+  | { type: "thread.create"; title?: string }
+  | { type: "thread.list" }
+  | { type: "thread.switch"; threadId: string }
+  | { type: "thread.rename"; threadId: string; title: string }
+  | { type: "thread.delete"; threadId: string }
+  | { type: "mcp.list" }
+  /** Session-scoped server; its tools are namespaced with `name` */
+  | { type: "mcp.add"; name: string; url: string; headers?: Record<string, string> }
+  | { type: "mcp.remove"; serverId: string }
+  | { type: "openapi.list" }
+  /** `document` is JSON text or an object */
+  | {
+      type: "openapi.add";
+      name: string;
+      document: unknown;
+      baseUrl?: string;
+      operations?: string[];
+      headers?: Record<string, string>;
+      adminToken?: string;
+    }
+  | { type: "openapi.remove"; name: string; adminToken?: string }
+  /** After a reconnect: replay the turn's frames after `lastSeq` and keep streaming it here */
+  | { type: "resume"; requestId: string; lastSeq: number };
+
+/** Frames that start a turn; the server makes up a request id when they come without one */
+export const TURN_FRAMES: readonly ClientFrame["type"][] = ["chat", "tool.run", "edit", "regenerate"];
+
+/* ------------------------------ server → client ----------------------------- */
+
+export type ErrorCode =
+  | "bad_frame"
+  | "unsupported_version"
+  | "unknown_model"
+  | "invalid_tool_call"
+  | "invalid_mcp_server"
+  | "mcp_connect_failed"
+  | "forbidden"
+  | "invalid_openapi";
+
+export type ServerFrame =
+  | { type: "ready"; state: SessionState; tools: ToolManifest[] }
+  | { type: "delta"; text: string }
+  /** End of one assistant message (a tool preamble or the answer) */
+  | { type: "done" }
+  /** Turn stopped by the user; partial text already arrived as deltas */
+  | { type: "stopped" }
+  | { type: "cleared" }
+  | ToolEvent
+  /** The user message that started the turn, with its server id (other connections add it from `text`) */
+  | { type: "saved"; id: number; text: string }
+  | { type: "threads"; threads: ThreadInfo[]; activeId: string }
+  /** Active thread changed - replace the transcript */
+  | { type: "thread"; state: SessionState }
+  /** Same thread, rewound or resynced (edit/regenerate) - replace the transcript */
+  | { type: "history"; state: SessionState }
+  | { type: "models"; models: ModelSummary[]; current: string }
+  | { type: "mcp"; servers: McpServerInfo[] }
+  | { type: "openapi"; apis: ApiSpecInfo[] }
+  /** Tool manifest changed (MCP tools discovered, API tools registered or removed) */
+  | { type: "tools"; tools: ToolManifest[] }
+  /** Answer to `resume`, after the `replayed` missed frames; `running` = the turn is still going */
+  | { type: "resumed"; running: boolean; replayed: number }
+  | { type: "error"; code: ErrorCode; message: string };
+
+/* --------------------------------- encoding -------------------------------- */
+
+/** Envelope fields next to `v`: the request a frame belongs to, and its place in that turn */
+export type FrameMeta = { requestId?: string; seq?: number };
+
+/** Frame as it travels: version, request id and seq, then the frame's own fields */
+export type WireFrame<F> = F & FrameMeta & { v: number };
+
+export type ParsedFrame<F> =
+  | ({ ok: true; frame: F } & FrameMeta)
+  | { ok: false; code: "bad_frame" | "unsupported_version"; message: string };
+
+export function encodeFrame(frame: ClientFrame | ServerFrame, meta: FrameMeta = {}): string {
+  const wire: WireFrame<ClientFrame | ServerFrame> = {
+    v: PROTOCOL_VERSION,
+    ...(meta.requestId ? { requestId: meta.requestId } : {}),
+    ...(meta.seq ? { seq: meta.seq } : {}),
+    ...frame,
+  };
+  return JSON.stringify(wire);
+}
+
+/* -------------------------------- validation ------------------------------- */
+
+type Check = (v: unknown) => boolean;
+
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+const str: Check = (v) => typeof v === "string";
+const num: Check = (v) => typeof v === "number" && Number.isFinite(v);
+const count: Check = (v) => Number.isInteger(v) && (v as number) >= 0;
+const bool: Check = (v) => typeof v === "boolean";
+const any: Check = () => true;
+const opt = (check: Check): Check => (v) => v === undefined || check(v);
+const arrayOf = (check: Check): Check => (v) => Array.isArray(v) && v.every(check);
+const shape = (fields: Record<string, Check>): Check => (v) =>
+  isRecord(v) && Object.entries(fields).every(([k, check]) => check(v[k]));
+const oneOf = (...values: string[]): Check => (v) => typeof v === "string" && values.includes(v);
+const strRecord: Check = (v) => isRecord(v) && Object.values(v).every(str);
+
+// Fields per frame type; the mapped types keep these in step with the unions above
+type FieldChecks<F extends { type: string }> = {
+  [T in F["type"]]: { [K in Exclude<keyof Extract<F, { type: T }>, "type">]-?: Check };
+};
+
+const CLIENT_FIELDS: FieldChecks<ClientFrame> = {
+  "chat": { text: str, fresh: opt(bool) },
+  "tool.run": { tool: str, args: any, text: str },
+  "edit": { messageId: num, text: str },
+  "regenerate": { messageId: num, fresh: opt(bool) },
+  "branch": { messageId: num },
+  "stop": {},
+  "reset": {},
+  "model": { model: str },
+  "models": {},
+  "thread.create": { title: opt(str) },
+  "thread.list": {},
+  "thread.switch": { threadId: str },
+  "thread.rename": { threadId: str, title: str },
+  "thread.delete": { threadId: str },
+  "mcp.list": {},
+  "mcp.add": { name: str, url: str, headers: opt(strRecord) },
+  "mcp.remove": { serverId: str },
+  "openapi.list": {},
+  "openapi.add": {
+    name: str,
+    document: any,
+    baseUrl: opt(str),
+    operations: opt(arrayOf(str)),
+    headers: opt(strRecord),
+    adminToken: opt(str),
+  },
+  "openapi.remove": { name: str, adminToken: opt(str) },
+  "resume": { requestId: str, lastSeq: count },
+};
+
+const wireMessage = shape({
+  id: num,
+  role: oneOf("user", "assistant", "tool"),
+  content: str,
+  ts: num,
+  tool: opt(str),
+  siblings: opt(arrayOf(num)),
+});
+const sessionState = shape({
+  model: str,
+  threadId: str,
+  messages: arrayOf(wireMessage),
+  summary: (v) => v === null || shape({ text: str, throughTs: num })(v),
+  createdAt: num,
+  expiresAt: num,
+});
+const manifest = arrayOf(shape({ name: str, title: str, steps: arrayOf(shape({ key: str, label: str })) }));
+
+const SERVER_FIELDS: FieldChecks<Exclude<ServerFrame, ToolEvent>> = {
+  "ready": { state: sessionState, tools: manifest },
+  "delta": { text: str },
+  "done": {},
+  "stopped": {},
+  "cleared": {},
+  "saved": { id: num, text: str },
+  "threads": { threads: arrayOf(shape({ id: str, title: str, createdAt: num, updatedAt: num })), activeId: str },
+  "thread": { state: sessionState },
+  "history": { state: sessionState },
+  "models": { models: arrayOf(shape({ id: str, name: str })), current: str },
+  "mcp": { servers: arrayOf(shape({ id: str, name: str, url: str, state: str, tools: arrayOf(str) })) },
+  "openapi": { apis: arrayOf(shape({ name: str, title: str, tools: arrayOf(str) })) },
+  "tools": { tools: manifest },
+  "resumed": { running: bool, replayed: count },
+  "error": { code: str, message: str },
+};
+
+/** Results are typed by the registry; only the ok/error envelope is checked */
+export function isToolResult(v: unknown): boolean {
+  return isRecord(v) && (v.ok === true || (v.ok === false && typeof v.error === "string"));
+}
+
+const TOOL_EVENT_FIELDS: Record<ToolEvent["status"], Record<string, Check>> = {
+  started: { message: opt(str) },
+  step: { step: str, message: opt(str), cached: opt(bool), retry: opt(num) },
+  done: { message: opt(str), result: isToolResult },
+  error: { message: str },
+};
+
+// Copies the declared fields only, so stray keys never reach a handler
+function pick(raw: Record<string, unknown>, fields: Record<string, Check>): Record<string, unknown> | null {
+  const out: Record<string, unknown> = { type: raw.type };
+  for (const [key, check] of Object.entries(fields)) {
+    if (!check(raw[key])) return null;
+    if (raw[key] !== undefined) out[key] = raw[key];
+  }
+  return out;
+}
+
+// Shared checks: JSON, a type, the version and the request id. `foreign` picks frames
+// of another protocol on the same socket, which come back as null.
+function parseEnvelope(
+  raw: unknown,
+  foreign?: (type: string) => boolean
+): ({ obj: Record<string, unknown> } & FrameMeta) | ParsedFrame<never> | null {
+  let obj: unknown = raw;
+  if (typeof raw === "string") {
+    try {
+      obj = JSON.parse(raw);
+    } catch {
+      return { ok: false, code: "bad_frame", message: "Frames must be JSON" };
+    }
+  }
+  if (!isRecord(obj) || typeof obj.type !== "string") return { ok: false, code: "bad_frame", message: "Frames need a `type`" };
+  if (foreign?.(obj.type)) return null;
+  if (obj.v !== PROTOCOL_VERSION) {
+    return { ok: false, code: "unsupported_version", message: `Protocol version ${PROTOCOL_VERSION} is required; reload the page` };
+  }
+  if (obj.requestId !== undefined && (typeof obj.requestId !== "string" || !REQUEST_ID_PATTERN.test(obj.requestId))) {
+    return { ok: false, code: "bad_frame", message: "`requestId` must be 1-64 letters, digits, _ or -" };
+  }
+  if (obj.seq !== undefined && !count(obj.seq)) return { ok: false, code: "bad_frame", message: "`seq` must be a whole number" };
+  return { obj, requestId: obj.requestId, seq: obj.seq as number | undefined };
+}
+
+/** Server side: a raw WebSocket message → a client frame, or why it was rejected */
+export function parseClientFrame(raw: unknown): ParsedFrame<ClientFrame> {
+  const env = parseEnvelope(raw);
+  if (!env || "ok" in env) return env ?? { ok: false, code: "bad_frame", message: "Unknown frame" };
+  const { obj, requestId, seq } = env;
+
+  const fields = Object.hasOwn(CLIENT_FIELDS, obj.type as string) ? CLIENT_FIELDS[obj.type as ClientFrame["type"]] : null;
+  if (!fields) return { ok: false, code: "bad_frame", message: `Unknown frame type: ${String(obj.type).slice(0, 40)}` };
+  const frame = pick(obj, fields);
+  if (!frame) return { ok: false, code: "bad_frame", message: `Malformed ${obj.type} frame` };
+  return { ok: true, frame: frame as ClientFrame, requestId, seq };
+}
+
+/**
+ * Client side: a raw WebSocket message → a server frame, or why it was rejected.
+ * null for the Agents SDK's own frames (`cf_agent_*`), which share the socket.
+ */
+export function parseServerFrame(raw: unknown): ParsedFrame<ServerFrame> | null {
+  const env = parseEnvelope(raw, (type) => type.startsWith("cf_agent_"));
+  if (!env || "ok" in env) return env;
+  const { obj, requestId, seq } = env;
+
+  let frame: Record<string, unknown> | null;
+  if (obj.type === "tool") {
+    const status = obj.status as ToolEvent["status"];
+    const fields = Object.hasOwn(TOOL_EVENT_FIELDS, status) ? TOOL_EVENT_FIELDS[status] : null;
+    frame = fields && str(obj.tool) && str(obj.callId) ? pick(obj, fields) : null;
+    if (frame) Object.assign(frame, { tool: obj.tool, callId: obj.callId, status });
+  } else {
+    const fields = Object.hasOwn(SERVER_FIELDS, obj.type as string) ? SERVER_FIELDS[obj.type as Exclude<ServerFrame, ToolEvent>["type"]] : null;
+    frame = fields ? pick(obj, fields) : null;
+  }
+  if (!frame) return { ok: false, code: "bad_frame", message: `Malformed ${String(obj.type).slice(0, 40)} frame` };
+  return { ok: true, frame: frame as ServerFrame, requestId, seq };
+}
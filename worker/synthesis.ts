@@ -0,0 +1,131 @@
+// Grounded synthesis - lets the model phrase answers from tool results, but only
+// ships text whose numbers and names can be found in the tool data.
+import { findModel } from "./models";
+
+/**
+ * verified: model writes the answer, checked by verifyGrounded (retry once, then template)
+ * template: deterministic tool summaries only
+ */
+export type SynthesisMode = "verified" | "template";
+
+// Per-model modes live in the catalog (worker/models.ts)
+const DEFAULT_SYNTHESIS_MODE: SynthesisMode = "verified";
+
+export function synthesisModeFor(model: string): SynthesisMode {
+  return findModel(model)?.synthesis ?? DEFAULT_SYNTHESIS_MODE;
+}
+
+/* ------------------------------ prompts ------------------------------ */
+
+export function synthesisPrompt(
+  userText: string,
+  facts: string,
+  retry?: { unsupported: string[] }
+): { system: string; prompt: string } {
+  let system =
+    "You are a helpful assistant. You just received data from tools and need to answer the user's question with it.\n\n" +
+    "CRITICAL: Use the EXACT numbers and names provided in the data. Do NOT use placeholders like '.' or ','.\n" +
+    "If you see 'Latitude: 46.61 degrees', say '46.61 degrees' - use the actual number.\n" +
+    "Answer the question that was asked; be conversational and concise.";
+
+  if (retry) {
+    system +=
+      "\n\nSTRICT MODE: Every number, place name and title in your answer must be copied from the data. " +
+      "Do not add facts, names, dates or numbers that are not in the data. Rounding to whole numbers is fine. " +
+      "If the data does not answer the question, say so plainly.";
+  }
+
+  let prompt =
+    `Here is the data I retrieved:\n\n${facts}\n\n` +
+    `User's question was: "${userText}"\n\n` +
+    `Please provide a helpful, natural response using the ACTUAL values from the data above.`;
+
+  if (retry?.unsupported.length) {
+    prompt += `\n\nYour previous answer mentioned things that are not in the data: ${retry.unsupported.join(", ")}. Leave them out.`;
+  }
+
+  return { system, prompt };
+}
+
+/* ----------------------------- verifier ------------------------------ */
+
+export type GroundingCheck = { ok: true } | { ok: false; unsupported: string[] };
+
+// Capitalized words that are fine without appearing in the data
+const ALLOWED_WORDS = new Set([
+  "i", "i'm", "i'll", "i've", "ok", "okay", "yes", "no",
+  "monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday",
+  "mon", "tue", "wed", "thu", "fri", "sat", "sun", "today", "tomorrow", "tonight",
+  "january", "february", "march", "april", "may", "june", "july",
+  "august", "september", "october", "november", "december",
+  "celsius", "fahrenheit", "c", "f", "n", "s", "e", "w", "km", "utc",
+  "iss", "international", "space", "station", "wikipedia", "open-meteo",
+]);
+
+const PLACEHOLDERS = [
+  /(^|[^\d])[.,]\s?°/,              // ".°N"
+  /\{\{?\s*[\w.]+\s*\}?\}/,          // "{lat}", "{{ value }}"
+  /\[(?:[A-Z_ ]{3,}|value|number|location|city|date|name)\]/i,
+  /\bX{2,}\b/,
+];
+
+const NUMBER_RE = /\d[\d,]*(?:\.\d+)?/g;
+const NAME_RE = /(?<![\p{L}\d'’])\p{Lu}[\p{L}'’-]*(?:\s+\p{Lu}[\p{L}'’-]*)*/gu;
+
+function numbersIn(text: string): string[] {
+  return (text.match(NUMBER_RE) ?? [])
+    .map((n) => (/^\d{1,3}(,\d{3})+(\.\d+)?$/.test(n) ? n.replace(/,/g, "") : n.replace(/,.*$/, "")))
+    .filter(Boolean);
+}
+
+/** A number is supported if the data has it exactly or rounds to it */
+function numberSupported(n: string, source: number[]): boolean {
+  const value = Number(n);
+  if (!Number.isFinite(value)) return true;
+  const decimals = n.includes(".") ? n.split(".")[1].length : 0;
+  return source.some((s) => {
+    const abs = Math.abs(s);
+    return abs === value || abs.toFixed(decimals) === value.toFixed(decimals);
+  });
+}
+
+function isSentenceStart(text: string, index: number): boolean {
+  const before = text.slice(0, index).trimEnd();
+  return before === "" || /[.!?:\n*•-]$/.test(before);
+}
+
+/**
+ * Checks that every number, place name and title in `text` appears in one of
+ * `sources` (tool data plus the user's own question). Heuristic by design:
+ * sentence-initial words are skipped since they are usually not names.
+ */
+export function verifyGrounded(text: string, sources: string[]): GroundingCheck {
+  const unsupported: string[] = [];
+
+  for (const re of PLACEHOLDERS) {
+    const m = text.match(re);
+    if (m) unsupported.push(m[0].trim());
+  }
+
+  const corpus = sources.join("\n");
+  const corpusLower = corpus.toLowerCase();
+  const sourceNumbers = numbersIn(corpus).map(Number).filter(Number.isFinite);
+
+  for (const n of numbersIn(text)) {
+    if (!numberSupported(n, sourceNumbers)) unsupported.push(n);
+  }
+
+  for (const m of text.matchAll(NAME_RE)) {
+    const phrase = m[0];
+    const words = phrase.split(/\s+/);
+    if (isSentenceStart(text, m.index ?? 0)) words.shift();
+
+    const missing = words
+      .map((w) => w.toLowerCase().replace(/['’]s$/, ""))
+      .filter((w) => !ALLOWED_WORDS.has(w) && !corpusLower.includes(w));
+    if (missing.length) unsupported.push(phrase);
+  }
+
+  const unique = [...new Set(unsupported)].slice(0, 10);
+  return unique.length ? { ok: false, unsupported: unique } : { ok: true };
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { normalizeArgs } from "./toolCache";
+
+describe("normalizeArgs", () => {
+  it("sorts keys", () => {
+    expect(normalizeArgs({ b: 1, a: 2 })).toBe(normalizeArgs({ a: 2, b: 1 }));
+    expect(normalizeArgs({ b: 1, a: 2 })).toBe('{"a":2,"b":1}');
+  });
+
+  it("trims strings and collapses their spaces, keeping case", () => {
+    expect(normalizeArgs({ q: "  New   York\t City " })).toBe('{"q":"New York City"}');
+    expect(normalizeArgs({ q: "Paris" })).not.toBe(normalizeArgs({ q: "paris" }));
+  });
+
+  it("rounds numbers to four decimals", () => {
+    expect(normalizeArgs({ lat: 48.856613, lon: 2.352222 })).toBe('{"lat":48.8566,"lon":2.3522}');
+    expect(normalizeArgs({ lat: 48.85661 })).toBe(normalizeArgs({ lat: 48.85664 }));
+  });
+
+  it("drops empty, null and undefined values", () => {
+    expect(normalizeArgs({ a: "x", b: "", c: null, d: undefined })).toBe('{"a":"x"}');
+    expect(normalizeArgs({ a: 0, b: false })).toBe('{"a":0,"b":false}');
+  });
+
+  it("keeps nested values as they are", () => {
+    expect(normalizeArgs({ tags: ["a", " b "] })).toBe('{"tags":["a"," b "]}');
+  });
+});
@@ -0,0 +1,65 @@
+// Tool HTTP cache - upstream responses stored in the session's SQLite so repeat
+// lookups (same city, same article) skip the network. Tools pick the TTL per call.
+import type { ToolCache } from "./tools/types";
+
+type CacheRow = { value: string; fetched_at: number };
+
+/** Entries older than this are pruned regardless of the TTL a tool asks for */
+const MAX_AGE_MS = 30 * 86_400_000;
+
+/**
+ * Stable key part: sorted keys, trimmed strings with collapsed spaces, rounded coordinates.
+ * Case is kept (Wikipedia titles differ by it); a tool folds the args it knows are case-insensitive.
+ */
+export function normalizeArgs(args: Record<string, unknown>): string {
+  const norm = Object.keys(args)
+    .sort()
+    .filter((k) => args[k] !== undefined && args[k] !== null && args[k] !== "")
+    .map((k) => {
+      const v = args[k];
+      if (typeof v === "string") return [k, v.trim().replace(/\s+/g, " ")];
+      if (typeof v === "number") return [k, Math.round(v * 1e4) / 1e4];
+      return [k, v];
+    });
+  return JSON.stringify(Object.fromEntries(norm));
+}
+
+export type ToolCacheOptions = {
+  /** Skip reads (the user asked for fresh data); results are still stored */
+  bypass?: boolean;
+  /** Called on every hit, e.g. to report it in a step event */
+  onHit?: (kind: string, ageMs: number) => void;
+};
+
+/** Cache for one tool's calls, backed by the `tool_cache` table */
+export function createToolCache(sql: SqlStorage, tool: string, opts: ToolCacheOptions = {}): ToolCache {
+  return {
+    async through<T>(kind: string, args: Record<string, unknown>, ttlMs: number, load: () => Promise<T>): Promise<T> {
+      const key = `${tool}:${kind}:${normalizeArgs(args)}`;
+      const now = Date.now();
+
+      if (!opts.bypass) {
+        const [row] = sql.exec<CacheRow>(`SELECT value, fetched_at FROM tool_cache WHERE key = ?`, key).toArray();
+        if (row && now - row.fetched_at < ttlMs) {
+          console.log("[cache] hit", { key, ageMs: now - row.fetched_at });
+          opts.onHit?.(kind, now - row.fetched_at);
+          return JSON.parse(row.value) as T;
+        }
+      }
+
+      const value = await load();
+      // null/undefined = "not found" style answers; don't pin those
+      if (value !== null && value !== undefined) {
+        sql.exec(
+          `INSERT OR REPLACE INTO tool_cache (key, tool, value, fetched_at) VALUES (?, ?, ?, ?)`,
+          key,
+          tool,
+          JSON.stringify(value),
+          now
+        );
+        sql.exec(`DELETE FROM tool_cache WHERE fetched_at < ?`, now - MAX_AGE_MS);
+      }
+      return value;
+    },
+  };
+}
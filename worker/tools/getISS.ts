@@ -1,6 +1,25 @@
-// ISS tracker tool - fetches current position of the space station
+// ISS tracker tool - live position of the space station, plus its orbit and passes from the TLE
+import { cached, defineTool, type ToolContext, type ToolFailure } from "./types";
+import { httpJson, httpText, toolFailure } from "./http";
+import { placeLabel, resolvePlace } from "./getWeather";
+import { findPasses, groundTrack, parseTle, positionAt, tleEpoch, type IssPass, type Tle, type TrackPoint } from "./issOrbit";
 
-export type IssArgs = Record<string, never>; // no args needed
+export type { IssPass, TrackPoint } from "./issOrbit";
+
+export type IssArgs = {
+  /** Observer for pass predictions */
+  lat?: number;
+  lon?: number;
+  /** Observer place, e.g. "London"; geocoded when lat/lon aren't given */
+  location?: string;
+  /** Ground-track window around now */
+  pastMinutes?: number;
+  futureMinutes?: number;
+  /** How far ahead to look for passes */
+  passDays?: number;
+};
+
+// track/passes are absent on results saved before orbit propagation existed
 export type IssOk = {
   ok: true;
   lat: number;
@@ -9,9 +28,17 @@ export type IssOk = {
   velocity_kmh?: number;
   visibility?: string;
   ts: number;
+  /** "live" = wheretheiss.at, "tle" = propagated because the live API failed */
+  source?: "live" | "tle";
+  /** Ground track from `ts - pastMinutes` to `ts + futureMinutes` */
+  track?: TrackPoint[];
+  tleEpoch?: number;
+  observer?: { lat: number; lon: number; name?: string };
+  /** Passes peaking above 10°, soonest first */
+  passes?: IssPass[];
 };
 
-export type IssErr = { ok: false; error: string };
+export type IssErr = ToolFailure;
 
 export type IssResult = IssOk | IssErr;
 
@@ -21,24 +48,131 @@ export const getISSToolSchema = {
   function: {
     name: "getISS",
     description:
-      "Fetch the International Space Station's current position (latitude/longitude) and basic telemetry.",
+      "Fetch the International Space Station's current position, its ground track, and upcoming passes over a location.",
     parameters: {
       type: "object",
-      properties: {},
+      properties: {
+        lat: { type: "number", description: "Observer latitude, for pass predictions" },
+        lon: { type: "number", description: "Observer longitude, for pass predictions" },
+        location: { type: "string", description: "Observer place name, looked up for pass predictions (e.g. \"Lyon, France\")" },
+        pastMinutes: { type: "number", description: "Ground track before now, in minutes (default 45)" },
+        futureMinutes: { type: "number", description: "Ground track after now, in minutes (default 90)" },
+        passDays: { type: "number", description: "Days ahead to search for passes (default 3)" },
+      },
       additionalProperties: false,
     },
   },
 } as const;
 
+// The station moves ~8 km/s - only absorb rapid repeats
+const POSITION_TTL_MS = 5_000;
+const LIVE_TIMEOUT_MS = 5_000;
+// CelesTrak refreshes the station's elements a few times a day
+const TLE_TTL_MS = 6 * 3_600_000;
+
+const DEFAULT_PAST_MIN = 45;
+const DEFAULT_FUTURE_MIN = 90;
+const MAX_TRACK_MIN = 360;
+const DEFAULT_PASS_DAYS = 3;
+const MAX_PASS_DAYS = 10;
+
+const TLE_SOURCES = [
+  "https://celestrak.org/NORAD/elements/gp.php?CATNR=25544&FORMAT=TLE",
+  "https://api.wheretheiss.at/v1/satellites/25544/tles?format=text",
+];
+
+/** Current TLE from the first source that answers (null if none) */
+async function fetchTle(ctx?: ToolContext): Promise<Tle | null> {
+  for (const url of TLE_SOURCES) {
+    try {
+      const tle = parseTle(await httpText(url, { ctx, retries: 1 }));
+      if (tle) return tle;
+    } catch (e) {
+      if (ctx?.signal.aborted) throw e;
+      console.log("[iss] TLE source failed", { url, error: e instanceof Error ? e.message : String(e) });
+    }
+  }
+  return null;
+}
+
+function clampMinutes(v: number | undefined, fallback: number, max: number): number {
+  return typeof v === "number" && Number.isFinite(v) ? Math.min(Math.max(Math.round(v), 0), max) : fallback;
+}
+
+// Live position from wheretheiss.at, then track and passes propagated from the TLE
+export async function getISS(args: IssArgs = {}, ctx?: ToolContext): Promise<IssResult> {
+    const live = await getLivePosition(ctx);
+
+    let tle: Tle | null = null;
+    try {
+      tle = await cached(ctx, "tle", {}, TLE_TTL_MS, () => fetchTle(ctx));
+    } catch (e) {
+      if (ctx?.signal.aborted) throw e;
+    }
+    if (!tle) return live;
+
+    // No live fix - the propagated position is within a few km for a fresh TLE
+    let base: IssOk;
+    if (live.ok) {
+      base = { ...live, source: "live" };
+    } else {
+      const now = Date.now();
+      const p = positionAt(tle, now);
+      if (!p) return live;
+      base = { ok: true, ...p, ts: now, source: "tle" };
+    }
+
+    ctx?.step("orbit", "Propagating orbit…");
+    const past = clampMinutes(args.pastMinutes, DEFAULT_PAST_MIN, MAX_TRACK_MIN);
+    const future = clampMinutes(args.futureMinutes, DEFAULT_FUTURE_MIN, MAX_TRACK_MIN);
+    const result: IssOk = {
+      ...base,
+      track: groundTrack(tle, base.ts - past * 60_000, base.ts + future * 60_000),
+      tleEpoch: tleEpoch(tle),
+    };
+
+    let observer: IssOk["observer"];
+    if (typeof args.lat === "number" && typeof args.lon === "number") {
+      observer = { lat: args.lat, lon: args.lon, name: args.location };
+    } else if (args.location) {
+      // A real lookup - coordinates the model makes up put the passes in the wrong place
+      ctx?.step("passes", `Finding ${args.location}…`);
+      const found = await locateObserver(args.location, ctx);
+      if (!("lat" in found)) return found;
+      observer = found;
+    }
+
+    if (observer) {
+      ctx?.step("passes", "Predicting passes…");
+      const days = Math.min(Math.max(args.passDays ?? DEFAULT_PASS_DAYS, 1), MAX_PASS_DAYS);
+      result.observer = observer;
+      result.passes = findPasses(tle, observer, base.ts, base.ts + days * 86_400_000);
+    }
+    return result;
+  }
+
+// Observer for a place name, with getWeather's geocoder; a failure when it's unknown or ambiguous
+async function locateObserver(location: string, ctx?: ToolContext): Promise<NonNullable<IssOk["observer"]> | IssErr> {
+  try {
+    const found = await resolvePlace(location, ctx);
+    if (found.ok) return { lat: found.place.lat, lon: found.place.lon, name: placeLabel(found.place) };
+    if (!found.candidates.length) return { ok: false, error: `I couldn't find a place called "${location}".` };
+    return { ok: false, error: `"${location}" could be ${found.candidates.map(placeLabel).join("; ")}. Which one do you mean?` };
+  } catch (e) {
+    if (ctx?.signal.aborted) throw e;
+    return toolFailure(e, "Place lookup");
+  }
+}
+
 // Uses wheretheiss.at API to get live ISS position
-export async function getISS(): Promise<IssResult> {
+async function getLivePosition(ctx?: ToolContext): Promise<IssResult> {
     const url = "https://api.wheretheiss.at/v1/satellites/25544";
   
     try {
-      const r = await fetch(url, { headers: { Accept: "application/json" } });
-      if (!r.ok) return { ok: false, error: `ISS API failed (${r.status})` };
-  
-      const j = (await r.json()) as unknown;
+      // Short timeout and one retry - the TLE can stand in for a slow API
+      const j = await cached(ctx, "position", {}, POSITION_TTL_MS, () =>
+        httpJson(url, { ctx, timeoutMs: LIVE_TIMEOUT_MS, retries: 1 })
+      );
   
       const lat =
         typeof (j as { latitude?: unknown }).latitude === "number"
@@ -50,7 +184,7 @@ export async function getISS(): Promise<IssResult> {
           : undefined;
   
       if (typeof lat !== "number" || typeof lon !== "number") {
-        return { ok: false, error: "Malformed response" };
+        return { ok: false, code: "malformed", error: "Malformed response" };
       }
   
       const altitude_km =
@@ -66,6 +200,9 @@ export async function getISS(): Promise<IssResult> {
           ? (j as { visibility: string }).visibility
           : undefined;
   
+      // Position time from the API (seconds), so a cached fix isn't passed off as live
+      const timestamp = (j as { timestamp?: unknown }).timestamp;
+
       return {
         ok: true,
         lat,
@@ -73,9 +210,112 @@ export async function getISS(): Promise<IssResult> {
         altitude_km,
         velocity_kmh,
         visibility,
-        ts: Date.now(),
+        ts: typeof timestamp === "number" ? timestamp * 1000 : Date.now(),
       };
-    } catch {
-      return { ok: false, error: "Network error" };
+    } catch (e) {
+      return toolFailure(e, "ISS position lookup");
     }
   }
+
+/** "2025-06-01 21:14 UTC" - the worker doesn't know the user's timezone */
+function utc(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 16).replace("T", " ") + " UTC";
+}
+
+function passLine(p: IssPass): string {
+  const minutes = Math.round((p.set - p.rise) / 60_000);
+  return `${utc(p.rise)}, max elevation ${p.maxElevation}°, ${minutes} min${p.visible ? ", visible" : ""}`;
+}
+
+// Deterministic summary - the model kept hallucinating placeholder coordinates
+export function summarizeISS(result: IssResult): string {
+  if (!result.ok) return `I couldn't fetch the ISS position: ${result.error}`;
+  const lat = result.lat.toFixed(2);
+  const lon = result.lon.toFixed(2);
+  const alt = typeof result.altitude_km === "number" ? `${Math.round(result.altitude_km)} km` : "unknown";
+  const vel = typeof result.velocity_kmh === "number" ? `${Math.round(result.velocity_kmh)} km/h` : "unknown";
+  const vis = result.visibility ? result.visibility : "n/a";
+
+  let text = `The ISS is currently near ${lat}°, ${lon}° at ~${alt}, moving ~${vel} (visibility: ${vis}).`;
+  if (result.passes) {
+    const where = result.observer?.name ?? "that location";
+    const next = result.passes.find((p) => p.visible);
+    text += next
+      ? ` Next visible pass over ${where}: ${passLine(next)}.`
+      : result.passes.length
+        ? ` No visible passes over ${where} soon; next pass (daylight): ${passLine(result.passes[0])}.`
+        : ` No passes over ${where} in the coming days.`;
+  }
+  return text;
+}
+
+// Plain-text facts for synthesis
+export function issFacts(result: IssResult): string {
+  if (!result.ok) return `ISS lookup failed: ${result.error}`;
+  return (
+    `ISS Location Data:\n` +
+    `- Latitude: ${result.lat.toFixed(2)} degrees\n` +
+    `- Longitude: ${result.lon.toFixed(2)} degrees\n` +
+    (result.altitude_km ? `- Altitude: ${Math.round(result.altitude_km)} kilometers\n` : "") +
+    (result.velocity_kmh ? `- Velocity: ${Math.round(result.velocity_kmh)} km/h\n` : "") +
+    (result.visibility ? `- Visibility: ${result.visibility}\n` : "") +
+    (result.source === "tle" ? `- Position computed from orbital elements (live API unavailable)\n` : "") +
+    (result.passes ? passFacts(result) : "")
+  ).trimEnd();
+}
+
+function passFacts(result: IssOk): string {
+  const o = result.observer;
+  const where = o ? `${o.name ?? "observer"} (${o.lat.toFixed(2)}, ${o.lon.toFixed(2)})` : "observer";
+  const passes = result.passes ?? [];
+  if (!passes.length) return `\nNo passes above 10° over ${where} in the search window.\n`;
+  return (
+    `\nUpcoming passes over ${where} (times in UTC; "visible" = station sunlit in a dark sky):\n` +
+    passes.map((p) => `- ${passLine(p)}`).join("\n") +
+    "\n"
+  );
+}
+
+// Registry entry
+export const issTool = defineTool({
+  name: "getISS",
+  title: "ISS Tracker",
+  description: "Get the current position of the International Space Station",
+  plannerHint:
+    "Use when user asks about the International Space Station location, position, orbit, or tracking. " +
+    "For 'when can I see the ISS from X?' pass location: X (with region/country if the user gave one); the tool looks it up. " +
+    "Only pass lat/lon when the user gave coordinates. " +
+    "Only set pastMinutes/futureMinutes/passDays when the user asks for a specific window.",
+  schema: getISSToolSchema,
+  steps: [
+    { key: "plan",  label: "Understand request" },
+    { key: "fetch", label: "Fetch position" },
+    { key: "orbit", label: "Propagate orbit" },
+    { key: "passes", label: "Predict passes" },
+    { key: "final", label: "Finalize" },
+  ],
+  preamble: "Let me check the ISS position…",
+  failureMessage: "I couldn't fetch the ISS position. Please try again in a moment.",
+  // Every arg is optional; out-of-range coordinates drop the observer
+  validateArgs: (raw): IssArgs => {
+    const r = typeof raw === "object" && raw !== null ? (raw as Record<string, unknown>) : {};
+    const num = (v: unknown) => (typeof v === "number" && Number.isFinite(v) ? v : undefined);
+    const lat = num(r.lat);
+    const lon = num(r.lon);
+    const hasObserver = lat !== undefined && lon !== undefined && Math.abs(lat) <= 90 && Math.abs(lon) <= 180;
+    return {
+      lat: hasObserver ? lat : undefined,
+      lon: hasObserver ? lon : undefined,
+      location: typeof r.location === "string" && r.location.trim() ? r.location.trim() : undefined,
+      pastMinutes: num(r.pastMinutes),
+      futureMinutes: num(r.futureMinutes),
+      passDays: num(r.passDays),
+    };
+  },
+  execute: async (args, ctx) => {
+    ctx.step("fetch", "Fetching live position…");
+    return getISS(args, ctx);
+  },
+  summarize: summarizeISS,
+  facts: issFacts,
+});
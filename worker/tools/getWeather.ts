@@ -1,37 +1,113 @@
 /// <reference lib="webworker" />
 // Weather tool using Open-Meteo API
-// Geocodes location, fetches 7-day forecast
+// Geocodes location, fetches current conditions, 7-day forecast and (optionally) hourly
+import { cached, defineTool, type ToolContext, type ToolFailure } from "./types";
+import { httpJson, toolFailure } from "./http";
+
+/**
+ * current - conditions right now (plus today)
+ * daily   - current + 7-day outlook (default)
+ * hourly  - current + next 48 hours + 7-day outlook
+ */
+export type WeatherGranularity = "current" | "daily" | "hourly";
 
 export type WeatherArgs = {
     location?: string;
     lat?: number;
     lon?: number;
     units?: "metric" | "imperial";
+    granularity?: WeatherGranularity;
   };
-  
-  export type WeatherResult =
-    | {
-        ok: true;
-        place: { name: string; region?: string; country?: string; timezone: string };
-        units: { temp: "°C" | "°F" };
-        daily: Array<{ date: string; tMin: number; tMax: number; pop: number; code?: number }>;
-      }
-    | { ok: false; error: string };
+
+  export type WeatherCurrent = {
+    /** Local time, ISO without offset */
+    time: string;
+    temp: number;
+    feelsLike: number;
+    humidity: number;
+    windSpeed: number;
+    windDir?: number;
+    precip: number;
+    code?: number;
+    condition: string;
+    isDay: boolean;
+  };
+
+  export type WeatherHour = { time: string; temp: number; pop: number; precip: number; code?: number; condition: string };
+
+  // current/hourly/wind/precip/condition are absent on results saved before they existed
+  export type WeatherForecast = {
+    ok: true;
+    ambiguous?: false;
+    place: { name: string; region?: string; country?: string; timezone: string };
+    units: { temp: "°C" | "°F"; wind?: "km/h" | "mph"; precip?: "mm" | "in" };
+    granularity?: WeatherGranularity;
+    current?: WeatherCurrent;
+    hourly?: WeatherHour[];
+    daily: Array<{ date: string; tMin: number; tMax: number; pop: number; code?: number; condition?: string }>;
+  };
+
+  export type GeoCandidate = {
+    name: string;
+    region?: string;
+    country?: string;
+    countryCode?: string;
+    lat: number;
+    lon: number;
+    population?: number;
+  };
+
+  /** Several places fit the name and nothing in the query tells them apart - the user picks one */
+  export type WeatherAmbiguous = {
+    ok: true;
+    ambiguous: true;
+    query: string;
+    candidates: GeoCandidate[];
+    /** Carried over so a choice re-runs with the same options */
+    args: Pick<WeatherArgs, "units" | "granularity">;
+  };
+
+  export type WeatherResult = WeatherForecast | WeatherAmbiguous | ToolFailure;
   
   const TAG = "[weather]";
 
+  // Cache TTLs - places don't move, forecasts update roughly hourly
+  const GEOCODE_TTL_MS = 7 * 86_400_000;
+  const FORECAST_TTL_MS = 30 * 60_000;
+
   type GeocodeJson = {
     results?: Array<{
       latitude: number;
       longitude: number;
       name?: string;
       admin1?: string;
+      admin2?: string;
       country?: string;
+      country_code?: string;
+      population?: number;
     }>;
   };
   
   type ForecastJson = {
     timezone?: string;
+    current?: {
+      time?: string;
+      temperature_2m?: number;
+      apparent_temperature?: number;
+      relative_humidity_2m?: number;
+      wind_speed_10m?: number;
+      wind_direction_10m?: number;
+      precipitation?: number;
+      weather_code?: number;
+      is_day?: number;
+    };
+    hourly?: {
+      time?: string[];
+      temperature_2m?: number[];
+      precipitation_probability?: number[];
+      precipitation?: number[];
+      weather_code?: number[];
+    };
     daily?: {
       time?: string[];
       temperature_2m_max?: number[];
@@ -41,44 +117,173 @@ export type WeatherArgs = {
     };
   };
   
-  async function geocode(name: string, signal: AbortSignal) {
+  // WMO weather interpretation codes (Open-Meteo `weather_code`)
+  const WMO_CONDITIONS: Record<number, string> = {
+    0: "Clear sky",
+    1: "Mainly clear",
+    2: "Partly cloudy",
+    3: "Overcast",
+    45: "Fog",
+    48: "Depositing rime fog",
+    51: "Light drizzle",
+    53: "Drizzle",
+    55: "Dense drizzle",
+    56: "Light freezing drizzle",
+    57: "Freezing drizzle",
+    61: "Light rain",
+    63: "Rain",
+    65: "Heavy rain",
+    66: "Light freezing rain",
+    67: "Freezing rain",
+    71: "Light snow",
+    73: "Snow",
+    75: "Heavy snow",
+    77: "Snow grains",
+    80: "Light rain showers",
+    81: "Rain showers",
+    82: "Violent rain showers",
+    85: "Light snow showers",
+    86: "Snow showers",
+    95: "Thunderstorm",
+    96: "Thunderstorm with light hail",
+    99: "Thunderstorm with heavy hail",
+  };
+
+  export function describeWeatherCode(code: number | undefined): string {
+    return code === undefined ? "Unknown" : WMO_CONDITIONS[code] ?? "Unknown";
+  }
+
+  const num = (v: unknown, fallback = NaN) => (typeof v === "number" && Number.isFinite(v) ? v : fallback);
+  const optCode = (v: unknown) => (typeof v === "number" && Number.isFinite(v) ? v : undefined);
+
+  // Open-Meteo is usually quick; a slow forecast still beats an error
+  const FORECAST_TIMEOUT_MS = 12_000;
+
+  async function geocodeCandidates(name: string, ctx?: ToolContext): Promise<GeoCandidate[]> {
     const u = new URL("https://geocoding-api.open-meteo.com/v1/search");
     u.searchParams.set("name", name);
-    u.searchParams.set("count", "1");
+    u.searchParams.set("count", "10");
     u.searchParams.set("language", "en");
     console.log(TAG, "geocode →", u.toString());
   
-    const r = await fetch(u.toString(), { signal });
-    if (!r.ok) throw new Error(`geocode ${r.status}`);
-    const j = (await r.json()) as unknown as GeocodeJson;
-    const hit = Array.isArray(j.results) ? j.results[0] : null;
-    if (!hit) throw new Error("no geocode results");
-    return {
+    const j = await httpJson<GeocodeJson>(u.toString(), { ctx });
+    return (Array.isArray(j.results) ? j.results : []).map((hit) => ({
       lat: Number(hit.latitude),
       lon: Number(hit.longitude),
       name: String(hit.name || name),
       region: hit.admin1 ? String(hit.admin1) : undefined,
       country: hit.country ? String(hit.country) : undefined,
-    };
+      countryCode: hit.country_code ? String(hit.country_code) : undefined,
+      population: typeof hit.population === "number" ? hit.population : undefined,
+    }));
   }
-  
-  export async function getWeather(args: WeatherArgs): Promise<WeatherResult> {
-    const ctrl = new AbortController();
-    const timeout = setTimeout(() => ctrl.abort(), 12_000);
-  
+
+  /* ------------------------- place disambiguation ------------------------- */
+
+  const US_STATES: Record<string, string> = {
+    al: "alabama", ak: "alaska", az: "arizona", ar: "arkansas", ca: "california", co: "colorado",
+    ct: "connecticut", de: "delaware", fl: "florida", ga: "georgia", hi: "hawaii", id: "idaho",
+    il: "illinois", in: "indiana", ia: "iowa", ks: "kansas", ky: "kentucky", la: "louisiana",
+    me: "maine", md: "maryland", ma: "massachusetts", mi: "michigan", mn: "minnesota", ms: "mississippi",
+    mo: "missouri", mt: "montana", ne: "nebraska", nv: "nevada", nh: "new hampshire", nj: "new jersey",
+    nm: "new mexico", ny: "new york", nc: "north carolina", nd: "north dakota", oh: "ohio", ok: "oklahoma",
+    or: "oregon", pa: "pennsylvania", ri: "rhode island", sc: "south carolina", sd: "south dakota",
+    tn: "tennessee", tx: "texas", ut: "utah", vt: "vermont", va: "virginia", wa: "washington",
+    wv: "west virginia", wi: "wisconsin", wy: "wyoming", dc: "district of columbia",
+  };
+  const COUNTRY_ALIASES: Record<string, string> = { uk: "gb", england: "gb", usa: "us", america: "us" };
+
+  // The top candidate must be this many times bigger than the runner-up to win on size alone
+  const POPULATION_DOMINANCE = 5;
+  const MAX_CANDIDATES = 5;
+
+  /** "Paris, Texas" → name "Paris", hints ["texas"]; "Springfield" → no hints */
+  function splitPlaceQuery(query: string): { name: string; hints: string[] } {
+    const [name, ...rest] = query.split(",").map((p) => p.trim()).filter(Boolean);
+    return { name: name ?? query.trim(), hints: rest.map((h) => h.toLowerCase()) };
+  }
+
+  function matchesHint(c: GeoCandidate, hint: string): boolean {
+    const fields = [c.region, c.country, c.countryCode].filter(Boolean).map((f) => f!.toLowerCase());
+    const wanted = [hint, US_STATES[hint], COUNTRY_ALIASES[hint]].filter(Boolean);
+    return wanted.some((w) => fields.includes(w!));
+  }
+
+  /**
+   * Ranks candidates by hint matches, then population. Confident when one
+   * candidate matches more hints than the rest, or clearly outsizes the others
+   * that match as many (Paris, France over Paris, Texas). Never confident when
+   * hints were given and none of them match.
+   */
+  function rankPlaces(candidates: GeoCandidate[], hints: string[]): { ranked: GeoCandidate[]; confident: boolean } {
+    const scored = candidates
+      .map((c) => ({ c, hits: hints.filter((h) => matchesHint(c, h)).length, pop: c.population ?? 0 }))
+      .sort((a, b) => b.hits - a.hits || b.pop - a.pop);
+
+    const [top, second] = scored;
+    // "Paris, Germany": no Paris matches, so don't quietly answer for Paris, France
+    const confident =
+      !!top &&
+      !(hints.length && top.hits === 0) &&
+      (!second ||
+        top.hits > second.hits ||
+        (top.pop > 0 && top.pop >= second.pop * POPULATION_DOMINANCE));
+    return { ranked: scored.map((s) => s.c), confident };
+  }
+
+  /** A place that fits the query, or the candidates to choose from (none = not found) */
+  export type PlaceLookup = { ok: true; place: GeoCandidate } | { ok: false; candidates: GeoCandidate[] };
+
+  /**
+   * Geocodes a place query ("Paris", "Paris, Texas", "Paris Texas") and picks the
+   * place it means, if the query and populations make that clear
+   */
+  export async function resolvePlace(location: string, ctx?: ToolContext): Promise<PlaceLookup> {
+    // Place names are case-insensitive, so "paris" and "Paris" share a cache entry
+    const lookup = (q: string) =>
+      cached(ctx, "places", { name: q.toLowerCase() }, GEOCODE_TTL_MS, () => geocodeCandidates(q, ctx));
+
+    let query = splitPlaceQuery(location);
+    let candidates = await lookup(query.name);
+    // "Paris Texas" finds nothing as a name - retry with the last word as a hint
+    const words = query.name.split(/\s+/);
+    if (!candidates.length && !query.hints.length && words.length > 1) {
+      query = { name: words.slice(0, -1).join(" "), hints: [words[words.length - 1].toLowerCase()] };
+      candidates = await lookup(query.name);
+    }
+
+    const { ranked, confident } = rankPlaces(candidates, query.hints);
+    return confident ? { ok: true, place: ranked[0] } : { ok: false, candidates: ranked.slice(0, MAX_CANDIDATES) };
+  }
+
+  export function placeLabel(p: { name: string; region?: string; country?: string }): string {
+    return [p.name, p.region, p.country].filter(Boolean).join(", ");
+  }
+
+  export async function getWeather(args: WeatherArgs, ctx?: ToolContext): Promise<WeatherResult> {
     try {
       const units = args.units === "imperial" ? "imperial" : "metric";
       const wantF = units === "imperial";
+      const granularity: WeatherGranularity = args.granularity ?? "daily";
   
       let lat = args.lat;
       let lon = args.lon;
-      let name = "";
+      // With coordinates (e.g. a picked candidate) the location is only a display name
+      let name = args.location ?? "";
       let region: string | undefined;
       let country: string | undefined;
   
       if ((lat == null || lon == null) && args.location) {
         console.log(TAG, "geocoding:", args.location);
-        const g = await geocode(args.location, ctrl.signal);
+        const found = await resolvePlace(args.location, ctx);
+        if (!found.ok && !found.candidates.length) {
+          return { ok: false, error: `I couldn't find a place called "${args.location}".` };
+        }
+        if (!found.ok) {
+          console.log(TAG, "ambiguous location:", args.location, found.candidates.length, "candidates");
+          return { ok: true, ambiguous: true, query: args.location, candidates: found.candidates, args: { units, granularity } };
+        }
+        const g = found.place;
         lat = g.lat; lon = g.lon; name = g.name; region = g.region; country = g.country;
       }
   
@@ -89,14 +294,24 @@ export type WeatherArgs = {
       const u = new URL("https://api.open-meteo.com/v1/forecast");
       u.searchParams.set("latitude", String(lat));
       u.searchParams.set("longitude", String(lon));
+      u.searchParams.set(
+        "current",
+        "temperature_2m,apparent_temperature,relative_humidity_2m,wind_speed_10m,wind_direction_10m,precipitation,weather_code,is_day"
+      );
       u.searchParams.set("daily", "temperature_2m_max,temperature_2m_min,precipitation_probability_max,weathercode");
+      if (granularity === "hourly") {
+        u.searchParams.set("hourly", "temperature_2m,precipitation_probability,precipitation,weather_code");
+        u.searchParams.set("forecast_hours", "48");
+      }
       u.searchParams.set("timezone", "auto");
       u.searchParams.set("temperature_unit", wantF ? "fahrenheit" : "celsius");
+      u.searchParams.set("wind_speed_unit", wantF ? "mph" : "kmh");
+      u.searchParams.set("precipitation_unit", wantF ? "inch" : "mm");
   
-      console.log(TAG, "fetch forecast →", u.toString());
-      const r = await fetch(u.toString(), { signal: ctrl.signal });
-      if (!r.ok) throw new Error(`forecast ${r.status}`);
-      const j = (await r.json()) as unknown as ForecastJson;
+      const j = await cached(ctx, "forecast", { lat, lon, units, granularity }, FORECAST_TTL_MS, async () => {
+        console.log(TAG, "fetch forecast →", u.toString());
+        return httpJson<ForecastJson>(u.toString(), { ctx, timeoutMs: FORECAST_TIMEOUT_MS });
+      });
 
       const tz = String(j.timezone || "UTC");
       const d = j.daily ?? {};
@@ -107,13 +322,46 @@ export type WeatherArgs = {
       const codes: number[] = Array.isArray(d.weathercode) ? d.weathercode : [];
 
   
-      const days = dates.map((date, i) => ({
-        date,
-        tMax: Number(tmax[i] ?? NaN),
-        tMin: Number(tmin[i] ?? NaN),
-        pop:  Number(pop[i]  ?? 0),
-        code: Number.isFinite(codes[i]) ? Number(codes[i]) : undefined,
-      })).filter(x => x && x.date);
+      const days = dates.map((date, i) => {
+        const code = Number.isFinite(codes[i]) ? Number(codes[i]) : undefined;
+        return {
+          date,
+          tMax: Number(tmax[i] ?? NaN),
+          tMin: Number(tmin[i] ?? NaN),
+          pop:  Number(pop[i]  ?? 0),
+          code,
+          condition: describeWeatherCode(code),
+        };
+      }).filter(x => x && x.date);
+
+      const c = j.current;
+      const current: WeatherCurrent | undefined = c?.time
+        ? {
+            time: c.time,
+            temp: num(c.temperature_2m),
+            feelsLike: num(c.apparent_temperature),
+            humidity: num(c.relative_humidity_2m),
+            windSpeed: num(c.wind_speed_10m),
+            windDir: optCode(c.wind_direction_10m),
+            precip: num(c.precipitation, 0),
+            code: optCode(c.weather_code),
+            condition: describeWeatherCode(optCode(c.weather_code)),
+            isDay: c.is_day !== 0,
+          }
+        : undefined;
+
+      const h = j.hourly;
+      const hourly: WeatherHour[] | undefined =
+        granularity === "hourly" && Array.isArray(h?.time)
+          ? h.time.map((time, i) => ({
+              time,
+              temp: num(h.temperature_2m?.[i]),
+              pop: num(h.precipitation_probability?.[i], 0),
+              precip: num(h.precipitation?.[i], 0),
+              code: optCode(h.weather_code?.[i]),
+              condition: describeWeatherCode(optCode(h.weather_code?.[i])),
+            }))
+          : undefined;
   
       const place = {
         name: name || (args.location || `${lat!.toFixed(3)}, ${lon!.toFixed(3)}`),
@@ -125,15 +373,18 @@ export type WeatherArgs = {
       return {
         ok: true,
         place,
-        units: { temp: wantF ? "°F" as const : "°C" as const },
-        daily: days,
+        units: {
+          temp: wantF ? "°F" as const : "°C" as const,
+          wind: wantF ? "mph" as const : "km/h" as const,
+          precip: wantF ? "in" as const : "mm" as const,
+        },
+        granularity,
+        current,
+        hourly,
+        daily: granularity === "current" ? days.slice(0, 1) : days,
       };
     } catch (e) {
-      const msg = e instanceof Error ? e.message : String(e);
-      console.log(TAG, "error:", msg);
-      return { ok: false, error: "Failed to fetch forecast." };
-    } finally {
-      clearTimeout(timeout);
+      return toolFailure(e, "Weather lookup");
     }
   }
   
@@ -142,16 +393,185 @@ export type WeatherArgs = {
     type: "function",
     function: {
       name: "getWeather",
-      description: "Fetch a 5–7 day forecast using Open-Meteo and answer weather questions.",
+      description: "Fetch current conditions, an hourly forecast or a 7-day forecast using Open-Meteo.",
       parameters: {
         type: "object",
         properties: {
           location: { type: "string", description: "City name, e.g., 'Vancouver'" },
           lat: { type: "number" },
           lon: { type: "number" },
-          units: { type: "string", enum: ["metric", "imperial"] }
+          units: { type: "string", enum: ["metric", "imperial"] },
+          granularity: {
+            type: "string",
+            enum: ["current", "daily", "hourly"],
+            description: "current = right now, hourly = hour by hour for the next 2 days, daily = 7-day outlook (default)",
+          }
         }
       }
     }
   } as const;
-  
\ No newline at end of file
+
+  /** "Right now in X it's 12°C (feels like 10°C) with light rain…" */
+  function currentSentence(name: string, cur: WeatherCurrent, units: WeatherForecast["units"]): string {
+    const T = units.temp;
+    const feels = Number.isFinite(cur.feelsLike) ? ` (feels like ${Math.round(cur.feelsLike)}${T})` : "";
+    const wind = Number.isFinite(cur.windSpeed) ? `, wind ${Math.round(cur.windSpeed)} ${units.wind ?? "km/h"}` : "";
+    const hum = Number.isFinite(cur.humidity) ? `, humidity ${Math.round(cur.humidity)}%` : "";
+    return `Right now in ${name} it's ${Math.round(cur.temp)}${T}${feels} — ${cur.condition.toLowerCase()}${wind}${hum}.`;
+  }
+
+  /** First upcoming hour that looks wet, for "when does the rain start?" */
+  function rainStartSentence(hourly: WeatherHour[]): string {
+    const wet = hourly.find((hr) => hr.pop >= 50 || hr.precip > 0);
+    if (!wet) return "No rain expected in the next 48 hours.";
+    const [date, time] = wet.time.split("T");
+    return `Rain is likely from ${time} on ${date} (${Math.round(wet.pop)}% chance, ${wet.condition.toLowerCase()}).`;
+  }
+
+  // Deterministic summary - the model kept hallucinating placeholder values
+  export function summarizeWeather(result: WeatherResult): string {
+    if (!result.ok) return "I couldn't fetch the weather. Please double-check the location.";
+    if (result.ambiguous) {
+      const options = result.candidates.map((c) => `- ${placeLabel(c)}`).join("\n");
+      return `I found several places called "${result.query}". Which one did you mean?\n${options}`;
+    }
+
+    const { place, daily, units, current, hourly } = result;
+    const name = [place.name, place.region, place.country].filter(Boolean).join(", ") || "that location";
+
+    const now = current ? currentSentence(name, current, units) : null;
+    if (result.granularity === "current" && now) return now;
+    if (result.granularity === "hourly" && now && hourly) {
+      return `${now} ${rainStartSentence(hourly)}`;
+    }
+
+    if (!daily.length) return now ?? `I couldn't find a daily forecast for ${name}.`;
+
+    const days = daily.slice(0, Math.min(7, daily.length));
+    let hi = -Infinity, lo = Infinity, maxPop = -1;
+    for (const d of days) {
+      if (Number.isFinite(d.tMax) && d.tMax! > hi) hi = d.tMax!;
+      if (Number.isFinite(d.tMin) && d.tMin! < lo) lo = d.tMin!;
+      if (Number.isFinite(d.pop) && d.pop! > maxPop) maxPop = d.pop!;
+    }
+    const T = units.temp;
+    const hiR = Number.isFinite(hi) ? Math.round(hi) : null;
+    const loR = Number.isFinite(lo) ? Math.round(lo) : null;
+
+    const lines: string[] = [];
+    if (hiR !== null && loR !== null) {
+      lines.push(`In ${name}, highs reach ~${hiR}${T} and lows dip to ~${loR}${T} this week.`);
+    } else if (hiR !== null) {
+      lines.push(`In ${name}, highs reach ~${hiR}${T} this week.`);
+    } else if (loR !== null) {
+      lines.push(`In ${name}, lows dip to ~${loR}${T} this week.`);
+    } else {
+      lines.push(`In ${name}, typical seasonal temperatures this week.`);
+    }
+
+    if (maxPop >= 70) {
+      lines.push(`Rain is likely (peak chance ~${Math.round(maxPop)}%) — pack rain gear (umbrella or waterproof jacket).`);
+    } else if (maxPop >= 40) {
+      lines.push(`Some showers possible (peak ~${Math.round(maxPop)}%) — consider a light rain jacket.`);
+    } else {
+      lines.push(`Low rain risk overall.`);
+    }
+
+    if (hiR !== null && hiR >= 30) {
+      lines.push(`It’ll feel hot — dress light and use sunscreen.`);
+    } else if (hiR !== null && hiR >= 24 && maxPop < 40) {
+      lines.push(`Warm and mostly dry — shorts and light layers are fine.`);
+    } else if (loR !== null && loR <= 5) {
+      lines.push(`Chilly at times — bring warm layers (and gloves/hat if you get cold easily).`);
+    } else if (hiR !== null && loR !== null) {
+      const range = hiR - loR;
+      if (range >= 10) lines.push(`Temps swing through the day — pack layers.`);
+      else lines.push(`Mild, steady temps — simple layers should be fine.`);
+    }
+
+    if (loR !== null && loR <= 0 && maxPop >= 50) {
+      lines.push(`Freezing conditions possible with precipitation — use winter shoes/boots.`);
+    }
+
+    if (now) lines.unshift(now);
+    return lines.join(" ");
+  }
+
+  // Plain-text facts for synthesis - current conditions, then one line per hour/day with real values
+  export function weatherFacts(result: WeatherResult): string {
+    if (!result.ok) return `Weather lookup failed: ${result.error}`;
+    if (result.ambiguous) {
+      const options = result.candidates.map((c, i) =>
+        `${i + 1}. ${placeLabel(c)} (lat ${c.lat}, lon ${c.lon}${c.population ? `, population ${c.population}` : ""})`
+      );
+      return (
+        `Several places match "${result.query}":\n${options.join("\n")}\n` +
+        `No forecast was fetched. Do not pick one - ask the user which place they mean.`
+      );
+    }
+    const loc = [result.place.name, result.place.region, result.place.country].filter(Boolean).join(", ");
+    const { temp: T, wind = "km/h", precip = "mm" } = result.units;
+    const sections: string[] = [];
+
+    const cur = result.current;
+    if (cur) {
+      sections.push(
+        `Current conditions (${cur.time} local): ${cur.condition}, ${cur.temp}${T}, feels like ${cur.feelsLike}${T}, ` +
+        `humidity ${cur.humidity}%, wind ${cur.windSpeed} ${wind}, precipitation ${cur.precip} ${precip}`
+      );
+    }
+    if (result.hourly?.length) {
+      const hours = result.hourly.map((hr) =>
+        `${hr.time}: ${hr.temp}${T}, ${hr.condition}, rain chance ${hr.pop}%, ${hr.precip} ${precip}`
+      );
+      sections.push(`Hourly forecast:\n${hours.join("\n")}`);
+    }
+    if (result.daily.length) {
+      const days = result.daily.slice(0, 7).map((day, i) =>
+        `Day ${i + 1} (${day.date}): ${day.condition ?? describeWeatherCode(day.code)}, High ${day.tMax}${T}, Low ${day.tMin}${T}, Rain chance ${day.pop}%`
+      );
+      sections.push(`Daily forecast:\n${days.join("\n")}`);
+    }
+
+    return `Weather for ${loc} (timezone ${result.place.timezone}):\n${sections.join("\n\n")}`;
+  }
+
+  // Registry entry
+  export const weatherTool = defineTool({
+    name: "getWeather",
+    title: "Weather",
+    description: "Fetch current conditions, hourly and 7-day weather forecasts for any location",
+    plannerHint:
+      "Use when user asks about weather, forecast, temperature, or precipitation for a location. " +
+      "Set granularity: 'current' for right now ('is it raining?'), 'hourly' for times within the next two days " +
+      "('when will the rain start tomorrow?'), otherwise 'daily'.",
+    schema: getWeatherToolSchema,
+    steps: [
+      { key: "plan",  label: "Plan intent" },
+      { key: "fetch", label: "Fetch from Open-Meteo API" },
+      { key: "parse", label: "Parse forecast" },
+      { key: "final", label: "Finalize" },
+    ],
+    preamble: "Sure — I’ll check the forecast using getWeather…",
+    failureMessage: "I couldn't fetch the weather. Please check the location and try again.",
+    // Weather args are flexible, getWeather handles defaults
+    validateArgs: (raw): WeatherArgs => {
+      if (typeof raw !== "object" || raw === null) return {};
+      const r = raw as Record<string, unknown>;
+      return {
+        location: typeof r.location === "string" ? r.location : undefined,
+        lat: typeof r.lat === "number" ? r.lat : undefined,
+        lon: typeof r.lon === "number" ? r.lon : undefined,
+        units: r.units === "imperial" ? "imperial" : r.units === "metric" ? "metric" : undefined,
+        granularity: r.granularity === "current" || r.granularity === "hourly" || r.granularity === "daily" ? r.granularity : undefined,
+      };
+    },
+    execute: async (args, ctx) => {
+      ctx.step("fetch", "Fetching forecast from Open-Meteo…");
+      const res = await getWeather(args, ctx);
+      if (res.ok) ctx.step("parse", "Parsing forecast…");
+      return res;
+    },
+    summarize: summarizeWeather,
+    facts: weatherFacts,
+  });
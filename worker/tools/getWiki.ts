@@ -1,10 +1,24 @@
-// Wikipedia tool - searches and fetches article summaries
+// Wikipedia tool - searches, fetches article summaries and pulls the sections that answer the question
+import { cached, defineTool, type ToolContext, type ToolFailure } from "./types";
+import { httpJson, toolFailure, ToolHttpError } from "./http";
+
 export type WikiArgs = {
     /** Free-form query, e.g. "Ada Lovelace", "Rust (programming language)" */
     query: string;
     /** Optional ISO 639-1 language code, defaults to "en" */
     lang?: string;
+    /** The user's actual question, used to pick sections ("How many titles did Real Madrid win?") */
+    question?: string;
   };
+
+  /** Another search hit, shown so the user can see what else matched */
+  export type WikiCandidate = { title: string; description?: string };
+
+  /** Heading in the article's table of contents (level 1 = "== X ==") */
+  export type WikiOutlineEntry = { title: string; level: number };
+
+  /** Article section picked for the question - cited in the answer */
+  export type WikiSection = { title: string; url: string; text: string };
   
   /** Success result */
   export type WikiOk = {
@@ -21,10 +35,16 @@ export type WikiArgs = {
     pageUrl: string;
     /** Language used for the lookup */
     lang: string;
+    /** Other search matches (disambiguation pages are skipped) */
+    candidates?: WikiCandidate[];
+    /** Section headings of the full article */
+    outline?: WikiOutlineEntry[];
+    /** Sections most relevant to the question, best first */
+    sections?: WikiSection[];
   };
   
   /** Error result */
-  export type WikiErr = { ok: false; error: string };
+  export type WikiErr = ToolFailure;
   
   export type WikiResult = WikiOk | WikiErr;
   
@@ -34,12 +54,13 @@ export type WikiArgs = {
     function: {
       name: "getWiki",
       description:
-        "Look up a topic or person on Wikipedia and return a short, factual summary with a link and optional thumbnail.",
+        "Look up a topic or person on Wikipedia and return a factual summary plus the article sections relevant to the question, with links.",
       parameters: {
         type: "object",
         properties: {
           query: { type: "string", description: "Topic or person to look up" },
           lang: { type: "string", description: "ISO 639-1 language code (default: en)" },
+          question: { type: "string", description: "The user's full question, used to find the relevant sections" },
         },
         required: ["query"],
         additionalProperties: false,
@@ -60,12 +81,15 @@ export type WikiArgs = {
   }
   
   /** Opensearch JSON: [searchTerm, titles[], descriptions[], links[]] */
-  function parseOpensearchTopTitle(json: unknown): string | undefined {
-    if (!Array.isArray(json) || json.length < 2) return undefined;
-    const titles = json[1];
-    if (!Array.isArray(titles) || titles.length === 0) return undefined;
-    const first = titles[0];
-    return typeof first === "string" ? first : undefined;
+  function parseOpensearch(json: unknown): WikiCandidate[] {
+    if (!Array.isArray(json) || json.length < 2 || !Array.isArray(json[1])) return [];
+    const descriptions: unknown[] = Array.isArray(json[2]) ? json[2] : [];
+    return json[1]
+      .map((title: unknown, i) => ({
+        title: typeof title === "string" ? title : "",
+        description: typeof descriptions[i] === "string" && descriptions[i] ? (descriptions[i] as string) : undefined,
+      }))
+      .filter((c) => c.title);
   }
   
   /** Pull nested page URL from REST summary safely */
@@ -87,15 +111,130 @@ export type WikiArgs = {
     return undefined;
   }
   
+  /* ------------------------- section retrieval ------------------------- */
+
+  type ParsedSection = { title: string; level: number; text: string };
+
+  const STOPWORDS = new Set([
+    "a", "an", "the", "and", "or", "of", "in", "on", "at", "to", "for", "by", "with", "from", "about",
+    "is", "are", "was", "were", "be", "been", "do", "does", "did", "has", "have", "had",
+    "what", "which", "who", "whom", "when", "where", "why", "how", "many", "much",
+    "tell", "me", "you", "your", "i", "my", "it", "its", "this", "that", "there", "their", "they",
+    "can", "could", "would", "should", "will", "please", "wikipedia",
+  ]);
+
+  const MAX_SECTIONS = 3;
+  const SECTION_CHARS = 1200;
+  // Lead + "See also"-style tails never answer a specific question
+  const SKIP_SECTIONS = /^(see also|references|notes|further reading|external links|bibliography|sources|citations|footnotes)$/i;
+
+  /** Lower-case content words, cut to a 5-letter stem so "titles"/"title" and "won"/"wins" meet halfway */
+  function terms(text: string): string[] {
+    return (text.toLowerCase().match(/[\p{L}\d]+/gu) ?? [])
+      .filter((w) => w.length > 1 && !STOPWORDS.has(w))
+      .map((w) => w.slice(0, 5));
+  }
+
+  /** Splits plain-text extracts on their "== Heading ==" markers; the lead is dropped (that's the summary) */
+  function parseSections(extract: string): ParsedSection[] {
+    const out: ParsedSection[] = [];
+    let current: ParsedSection | null = null;
+    for (const line of extract.split("\n")) {
+      const m = line.match(/^(={2,6})\s*(.+?)\s*\1\s*$/);
+      if (m) {
+        current = { title: m[2], level: m[1].length - 1, text: "" };
+        out.push(current);
+      } else if (current && line.trim()) {
+        current.text += (current.text ? "\n" : "") + line.trim();
+      }
+    }
+    return out;
+  }
+
+  /**
+   * Scores sections against the question (tf·idf over sections, heading hits
+   * count triple) and returns the best few with text. Terms from the article
+   * title are ignored - every section is "about Real Madrid".
+   */
+  function relevantSections(sections: ParsedSection[], question: string, articleTitle: string, pageUrl: string): WikiSection[] {
+    const titleTerms = new Set(terms(articleTitle));
+    const wanted = [...new Set(terms(question))].filter((t) => !titleTerms.has(t));
+    if (!wanted.length) return [];
+
+    const docs = sections.map((s) => ({ s, heading: terms(s.title), body: terms(s.text) }));
+    const idf = new Map(
+      wanted.map((t) => {
+        const df = docs.filter((d) => d.body.includes(t) || d.heading.includes(t)).length;
+        return [t, Math.log(1 + docs.length / (1 + df))];
+      })
+    );
+
+    return docs
+      .filter((d) => d.s.text && !SKIP_SECTIONS.test(d.s.title))
+      .map((d) => {
+        const score = wanted.reduce((sum, t) => {
+          const tf = d.body.filter((w) => w === t).length;
+          const inHeading = d.heading.includes(t) ? 3 : 0;
+          return sum + (Math.log(1 + tf) + inHeading) * (idf.get(t) ?? 0);
+        }, 0);
+        return { d, score };
+      })
+      .filter((x) => x.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_SECTIONS)
+      .map(({ d }) => ({
+        title: d.s.title,
+        url: `${pageUrl}#${encodeURIComponent(d.s.title.replace(/\s/g, "_"))}`,
+        text: d.s.text.length > SECTION_CHARS ? d.s.text.slice(0, SECTION_CHARS).trimEnd() + "…" : d.s.text,
+      }));
+  }
+
+  /** Picks the search hit whose title/description shares most words with the question (search order breaks ties) */
+  function rankCandidates(candidates: WikiCandidate[], question: string): WikiCandidate[] {
+    const wanted = new Set(terms(question));
+    const overlap = (c: WikiCandidate) => terms(`${c.title} ${c.description ?? ""}`).filter((t) => wanted.has(t)).length;
+    return candidates
+      .map((c, i) => ({ c, i, score: overlap(c) }))
+      .sort((a, b) => b.score - a.score || a.i - b.i)
+      .map((x) => x.c);
+  }
+
   /* ----------------------------- tool impl ----------------------------- */
+
+  // Articles change slowly; search hits, summaries and full text are cached for hours
+  const SEARCH_TTL_MS = 6 * 3_600_000;
+  const SUMMARY_TTL_MS = 6 * 3_600_000;
+  const ARTICLE_TTL_MS = 6 * 3_600_000;
+  const SEARCH_LIMIT = 5;
+  // Summaries fetched while skipping disambiguation pages
+  const MAX_SUMMARY_TRIES = 3;
+
+  /** Full article as plain text with "== Heading ==" markers (null when unavailable) */
+  async function fetchArticleText(title: string, lang: string, ctx?: ToolContext): Promise<string | null> {
+    const u = new URL(`https://${lang}.wikipedia.org/w/api.php`);
+    u.searchParams.set("action", "query");
+    u.searchParams.set("prop", "extracts");
+    u.searchParams.set("explaintext", "1");
+    u.searchParams.set("exsectionformat", "wiki");
+    u.searchParams.set("redirects", "1");
+    u.searchParams.set("format", "json");
+    u.searchParams.set("formatversion", "2");
+    u.searchParams.set("titles", title);
+
+    const j = await httpJson(u.toString(), { ctx });
+    const pages = isRecord(j) && isRecord(j.query) && Array.isArray(j.query.pages) ? j.query.pages : [];
+    return getString(pages[0], "extract") ?? null;
+  }
   
   /**
-   * Resolve a title via Opensearch, then fetch the REST summary.
-   * No API key required. Returns a compact, UI-friendly payload.
+   * Search several candidates via Opensearch, take the best non-disambiguation
+   * page's REST summary, then pull the full article and keep the sections that
+   * match the question. No API key required.
    */
-  export async function getWiki(args: WikiArgs): Promise<WikiResult> {
+  export async function getWiki(args: WikiArgs, ctx?: ToolContext): Promise<WikiResult> {
     const query = (args.query || "").trim();
     const lang = (args.lang || "en").toLowerCase();
+    const question = (args.question || query).trim();
   
     if (!query) return { ok: false, error: "Missing query." };
     // Validate language code
@@ -103,56 +242,82 @@ export type WikiArgs = {
       return { ok: false, error: `Invalid language: ${lang}` };
     }
   
-    // Search for the page title
-    const searchUrl = `https://${lang}.wikipedia.org/w/api.php?action=opensearch&format=json&limit=1&namespace=0&search=${encodeURIComponent(
+    // Search for candidate titles
+    const searchUrl = `https://${lang}.wikipedia.org/w/api.php?action=opensearch&format=json&limit=${SEARCH_LIMIT}&namespace=0&search=${encodeURIComponent(
         query
     )}`;
   
-    let title = query;
-try {
-  const sr = await fetch(searchUrl, {
-    headers: {
-      Accept: "application/json",
-      // User agent for Wikimedia
-      "User-Agent": "cf-chat-agent-starter/1.0 (+https://developers.cloudflare.com/)",
-    },
-  });
-  if (sr.ok) {
-    const j = (await sr.json()) as unknown;
-    title = parseOpensearchTopTitle(j) || query;
-  } else {
-    // If search fails, use query as-is
-    title = query;
-  }
-} catch {
-  // On error, use query as-is
-  title = query;
-}
-  
-    // Fetch article summary
-    const summaryUrl = `https://${lang}.wikipedia.org/api/rest_v1/page/summary/${encodeURIComponent(title)}`;
-  
+    let candidates: WikiCandidate[] = [];
     try {
-      const r = await fetch(summaryUrl, {
-        headers: {
-          Accept: "application/json; charset=utf-8",
-          "User-Agent": "cf-chat-agent-starter/1.0 (+https://developers.cloudflare.com/)",
-        },
-      });
+      candidates =
+        (await cached(ctx, "candidates", { query, lang }, SEARCH_TTL_MS, async () => {
+          const found = parseOpensearch(await httpJson(searchUrl, { ctx }));
+          return found.length ? found : null;
+        })) ?? [];
+    } catch (e) {
+      // On error, use query as-is
+      if (ctx?.signal.aborted) throw e;
+      console.log("[wiki] search failed, using the query as the title", e);
+    }
+    const ordered = rankCandidates(candidates.length ? candidates : [{ title: query }], question);
   
-      if (r.status === 404) return { ok: false, error: "No page found." };
-      if (!r.ok) return { ok: false, error: `Summary failed (${r.status})` };
+    try {
+      // Fetch summaries until one is a real article
+      let summary: unknown = null;
+      let title = ordered[0].title;
+      let disambiguations = 0;
+      for (const c of ordered.slice(0, MAX_SUMMARY_TRIES)) {
+        ctx?.step("fetch", `Fetching “${c.title}”…`);
+        const summaryUrl = `https://${lang}.wikipedia.org/api/rest_v1/page/summary/${encodeURIComponent(c.title)}`;
+        // Missing titles resolve to null (not cached) so the next candidate gets a turn
+        const j = await cached(ctx, "summary", { title: c.title, lang }, SUMMARY_TTL_MS, () =>
+          httpJson(summaryUrl, { ctx }).catch((e: unknown) => {
+            if (e instanceof ToolHttpError && e.code === "not_found") return null;
+            throw e;
+          })
+        );
+        if (j === null) continue;
+        if (getString(j, "type") === "disambiguation") {
+          disambiguations++;
+          continue;
+        }
+        summary = j;
+        title = c.title;
+        break;
+      }
   
-      const j = (await r.json()) as unknown;
+      if (summary === null) {
+        if (!disambiguations) return { ok: false, code: "not_found", error: "No page found." };
+        const options = ordered.slice(0, SEARCH_LIMIT).map((c) => c.title).join(", ");
+        return { ok: false, error: `“${query}” is ambiguous on Wikipedia; try a more specific name (${options}).` };
+      }
   
-      const pageTitle = getString(j, "title") || title;
-      const extract = getString(j, "extract") || "";
-      const description = getString(j, "description");
+      const pageTitle = getString(summary, "title") || title;
+      const extract = getString(summary, "extract") || "";
+      const description = getString(summary, "description");
   
       if (!extract) return { ok: false, error: "No summary available." };
   
-      const pageUrl = extractPageUrl(j, lang, pageTitle);
-      const thumbnailUrl = extractThumb(j);
+      const pageUrl = extractPageUrl(summary, lang, pageTitle);
+      const thumbnailUrl = extractThumb(summary);
+  
+      // Full article → outline + sections for the question; the summary alone still answers if this fails
+      ctx?.step("sections", "Reading relevant sections…");
+      let outline: WikiOutlineEntry[] | undefined;
+      let sections: WikiSection[] | undefined;
+      try {
+        const text = await cached(ctx, "article", { title: pageTitle, lang }, ARTICLE_TTL_MS, () =>
+          fetchArticleText(pageTitle, lang, ctx)
+        );
+        if (text) {
+          const parsed = parseSections(text);
+          outline = parsed.map(({ title, level }) => ({ title, level }));
+          sections = relevantSections(parsed, question, pageTitle, pageUrl);
+        }
+      } catch (e) {
+        if (ctx?.signal.aborted) throw e;
+        console.log("[wiki] article text failed", e);
+      }
   
       return {
         ok: true,
@@ -162,9 +327,77 @@ try {
         thumbnailUrl,
         pageUrl,
         lang,
+        candidates: candidates.filter((c) => c.title !== title && c.title !== pageTitle),
+        outline,
+        sections,
       };
-    } catch {
-      return { ok: false, error: "Network error." };
+    } catch (e) {
+      return toolFailure(e, "Wikipedia lookup");
+    }
+  }
+
+  function clip(text: string, max: number): string {
+    return text.length > max ? text.slice(0, max).trimEnd() + "…" : text;
+  }
+
+  // Deterministic summary - the best matching section when there is one, else the intro
+  export function summarizeWiki(result: WikiResult): string {
+    if (!result.ok) return `I couldn't fetch Wikipedia: ${result.error}`;
+    const title = result.title || "Summary";
+    const best = result.sections?.[0];
+    if (best) return `${title} § ${best.title} — ${clip(best.text, 600)}\n\nSource: ${best.url}`;
+    const text = (result.extract || "").trim();
+    if (!text) return `${title} — summary unavailable.`;
+    return `${title} — ${clip(text, 480)}`;
+  }
+
+  // Plain-text facts for synthesis - capped so long extracts don't crowd the prompt
+  export function wikiFacts(result: WikiResult): string {
+    if (!result.ok) return `Wikipedia lookup failed: ${result.error}`;
+    const sections = result.sections ?? [];
+    let facts =
+      `Wikipedia Article: ${result.title}\n` +
+      (result.description ? `Description: ${result.description}\n` : "") +
+      `URL: ${result.pageUrl}\n\nSummary:\n${clip(result.extract, 2000) || "No summary available"}`;
+    for (const s of sections) facts += `\n\nSection "${s.title}" (${s.url}):\n${s.text}`;
+    if (sections.length) {
+      facts += `\n\nWhen the answer comes from a section, cite it, e.g. (Wikipedia: ${result.title} § ${sections[0].title}).`;
     }
+    return facts;
   }
-  
\ No newline at end of file
+
+  // Registry entry
+  export const wikiTool = defineTool({
+    name: "getWiki",
+    title: "Wikipedia",
+    description: "Look up information about people, places, things, or concepts from Wikipedia",
+    plannerHint:
+      "Use when user asks about a person, place, thing, concept, organization, event, or any factual information. " +
+      "  For Wikipedia, extract the main subject as the query and pass the user's question as question. Examples:\n" +
+      "  * 'How many titles did Real Madrid win?' → query: 'Real Madrid', question: 'How many titles did Real Madrid win?'\n" +
+      "  * 'Tell me about Ada Lovelace' → query: 'Ada Lovelace'\n" +
+      "  * 'What is machine learning?' → query: 'Machine learning'",
+    schema: getWikiToolSchema,
+    steps: [
+      { key: "plan",   label: "Understand query" },
+      { key: "search", label: "Search Wikipedia" },
+      { key: "fetch",  label: "Fetch summary" },
+      { key: "sections", label: "Find relevant sections" },
+      { key: "final",  label: "Finalize" },
+    ],
+    preamble: "Let me look that up on Wikipedia…",
+    failureMessage: "I couldn't fetch Wikipedia. Please refine the topic or try another query.",
+    // Wiki needs a query string
+    validateArgs: (raw): WikiArgs | null => {
+      if (!isRecord(raw)) return null;
+      const query = getString(raw, "query")?.trim();
+      if (!query) return null;
+      return { query, lang: getString(raw, "lang"), question: getString(raw, "question")?.trim() || undefined };
+    },
+    execute: async (args, ctx) => {
+      ctx.step("search", "Searching Wikipedia…");
+      return getWiki(args, ctx);
+    },
+    summarize: summarizeWiki,
+    facts: wikiFacts,
+  });
@@ -0,0 +1,152 @@
+// Shared HTTP layer for tools - per-call timeouts, retries with backoff on 5xx/429,
+// Retry-After, one User-Agent, and errors typed by what went wrong
+import type { ToolContext, ToolErrorCode, ToolFailure } from "./types";
+
+export const USER_AGENT = "cf-chat-agent-starter/1.0 (+https://developers.cloudflare.com/)";
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_RETRIES = 2;
+const BACKOFF_BASE_MS = 400;
+// A Retry-After longer than this isn't worth holding the turn for
+const MAX_RETRY_WAIT_MS = 8_000;
+
+/** Thrown by the helpers below; `code` drives the user-facing message */
+export class ToolHttpError extends Error {
+  readonly code: ToolErrorCode;
+  readonly status?: number;
+
+  constructor(code: ToolErrorCode, message: string, status?: number) {
+    super(message);
+    this.name = "ToolHttpError";
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export type HttpOptions = {
+  /** Supplies the stop signal and receives retry events */
+  ctx?: ToolContext;
+  /** Per attempt, default 10 s */
+  timeoutMs?: number;
+  /** Extra attempts on 5xx/429/timeouts, default 2 */
+  retries?: number;
+  headers?: Record<string, string>;
+  /** Default GET; pass `retries: 0` for requests that aren't safe to repeat */
+  method?: string;
+  body?: string;
+};
+
+function codeForStatus(status: number): ToolErrorCode {
+  if (status === 404 || status === 410) return "not_found";
+  return status >= 500 || status === 429 ? "upstream_5xx" : "upstream_4xx";
+}
+
+/** Seconds or an HTTP date; null when absent or unreadable */
+function retryAfterMs(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const at = Date.parse(header);
+  return Number.isFinite(at) ? Math.max(0, at - Date.now()) : null;
+}
+
+/** Exponential backoff with full jitter: attempt 1 → 0–400 ms, 2 → 0–800 ms, … */
+function backoffMs(attempt: number): number {
+  return Math.round(Math.random() * BACKOFF_BASE_MS * 2 ** (attempt - 1));
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * fetch() with a timeout per attempt and retries for transient failures.
+ * Returns only ok responses; everything else becomes a ToolHttpError.
+ * Stopping the turn rethrows the abort as is.
+ */
+export async function httpFetch(url: string, opts: HttpOptions = {}): Promise<Response> {
+  const { ctx, timeoutMs = DEFAULT_TIMEOUT_MS, retries = DEFAULT_RETRIES } = opts;
+  const stop = ctx?.signal;
+  const host = new URL(url).host;
+
+  for (let attempt = 1; ; attempt++) {
+    let error: ToolHttpError;
+    let wait: number | null = null;
+
+    try {
+      const signal = stop ? AbortSignal.any([stop, AbortSignal.timeout(timeoutMs)]) : AbortSignal.timeout(timeoutMs);
+      const r = await fetch(url, {
+        method: opts.method,
+        body: opts.body,
+        signal,
+        headers: { "User-Agent": USER_AGENT, ...opts.headers },
+      });
+      if (r.ok) return r;
+
+      error = new ToolHttpError(codeForStatus(r.status), `${host} returned ${r.status}`, r.status);
+      if (error.code !== "upstream_5xx") throw error;
+      wait = retryAfterMs(r.headers.get("Retry-After"));
+    } catch (e) {
+      if (e instanceof ToolHttpError) throw e;
+      if (stop?.aborted) throw e;
+      error =
+        e instanceof Error && e.name === "TimeoutError"
+          ? new ToolHttpError("timeout", `${host} did not answer within ${timeoutMs} ms`)
+          : // Connection failures look like an outage to the user
+            new ToolHttpError("upstream_5xx", `${host} unreachable: ${e instanceof Error ? e.message : String(e)}`);
+    }
+
+    wait ??= backoffMs(attempt);
+    if (attempt > retries || wait > MAX_RETRY_WAIT_MS) throw error;
+
+    console.log("[http] retry", { url, attempt, of: retries, reason: error.message, waitMs: wait });
+    ctx?.retry({ attempt, of: retries, reason: error.message, delayMs: wait });
+    await sleep(wait, stop);
+  }
+}
+
+/** httpFetch + JSON body; unparseable bodies are `malformed` */
+export async function httpJson<T = unknown>(url: string, opts: HttpOptions = {}): Promise<T> {
+  const r = await httpFetch(url, { ...opts, headers: { Accept: "application/json", ...opts.headers } });
+  try {
+    return (await r.json()) as T;
+  } catch {
+    throw new ToolHttpError("malformed", `${new URL(url).host} sent invalid JSON`);
+  }
+}
+
+export async function httpText(url: string, opts: HttpOptions = {}): Promise<string> {
+  const r = await httpFetch(url, { ...opts, headers: { Accept: "text/plain", ...opts.headers } });
+  return r.text();
+}
+
+const FAILURE_TEXT: Record<ToolErrorCode, string> = {
+  timeout: "timed out",
+  upstream_4xx: "was rejected",
+  upstream_5xx: "failed upstream",
+  malformed: "returned unreadable data",
+  not_found: "found nothing",
+};
+
+/**
+ * Failure result for a caught error, e.g. toolFailure(e, "Forecast request").
+ * Anything that isn't a ToolHttpError was thrown while reading the response,
+ * so it counts as malformed.
+ */
+export function toolFailure(e: unknown, what: string): ToolFailure {
+  const code = e instanceof ToolHttpError ? e.code : "malformed";
+  const status = e instanceof ToolHttpError && e.status ? ` (${e.status})` : "";
+  console.log("[http] failure", { what, code, error: e instanceof Error ? e.message : String(e) });
+  return { ok: false, code, error: `${what} ${FAILURE_TEXT[code]}${status}` };
+}
@@ -0,0 +1,76 @@
+// Tool registry - the planner, event emission, persistence and client typings
+// are all derived from this list. Adding a tool = new file + one entry here.
+import { weatherTool } from "./getWeather";
+import { wikiTool } from "./getWiki";
+import { issTool } from "./getISS";
+import type { RegisteredTool, ToolStep } from "./types";
+import type { McpToolName, McpToolResult } from "../mcp";
+import type { ApiToolName, ApiToolResult } from "../openapi";
+
+export const TOOLS = [weatherTool, wikiTool, issTool] as const;
+
+type AnyTool = (typeof TOOLS)[number];
+
+export type ToolName = AnyTool["name"];
+
+/**
+ * Compiled-in tools plus the session's dynamic ones: tools discovered on MCP servers
+ * (`mcp_<server>__<tool>`) and OpenAPI operations (`api_<document>__<operation>`)
+ */
+export type AnyToolName = ToolName | McpToolName | ApiToolName;
+
+/** Result type of a tool, by name */
+export type ToolResultOf<N extends ToolName> =
+  Extract<AnyTool, { name: N }> extends RegisteredTool<N, infer R> ? R : never;
+
+type ToolEventFor<N extends string, R> =
+  | { type: "tool"; tool: N; callId: string; status: "started"; message?: string }
+  | { type: "tool"; tool: N; callId: string; status: "step";    step: string; message?: string; cached?: boolean; retry?: number }
+  | { type: "tool"; tool: N; callId: string; status: "done";    message?: string; result: R }
+  | { type: "tool"; tool: N; callId: string; status: "error";   message: string };
+
+/**
+ * Progress/result frames streamed to the client while a tool runs.
+ * `callId` is unique per call so parallel calls of one tool get their own card;
+ * `cached` marks a step served from the session's tool cache; `retry` is the attempt
+ * number when the step is an upstream retry.
+ */
+export type ToolEvent =
+  | { [N in ToolName]: ToolEventFor<N, ToolResultOf<N>> }[ToolName]
+  | ToolEventFor<McpToolName, McpToolResult>
+  | ToolEventFor<ApiToolName, ApiToolResult>;
+
+/** A tool name paired with its result */
+export type ToolOutput =
+  | { [N in ToolName]: { tool: N; result: ToolResultOf<N> } }[ToolName]
+  | { tool: McpToolName; result: McpToolResult }
+  | { tool: ApiToolName; result: ApiToolResult };
+
+/** What the client needs to render progress cards (sent in the `ready` frame) */
+export type ToolManifest = { name: AnyToolName; title: string; steps: readonly ToolStep[] };
+
+// The helpers below take the session's extra (MCP and OpenAPI) tools; the compiled-in ones are always included
+
+export function findTool(name: unknown): AnyTool | undefined;
+export function findTool(name: unknown, extra: readonly RegisteredTool[]): RegisteredTool | undefined;
+export function findTool(name: unknown, extra: readonly RegisteredTool[] = []): RegisteredTool | undefined {
+  return TOOLS.find((t) => t.name === name) ?? extra.find((t) => t.name === name);
+}
+
+export function toolSchemas(extra: readonly RegisteredTool[] = []) {
+  return [...TOOLS, ...extra].map((t) => t.schema);
+}
+
+export function toolManifest(extra: readonly RegisteredTool[] = []): ToolManifest[] {
+  return [...TOOLS, ...extra].map(({ name, title, steps }) => ({ name: name as AnyToolName, title, steps }));
+}
+
+/** "- name: hint" lines for the planner system prompt */
+export function plannerToolLines(extra: readonly RegisteredTool[] = []): string {
+  return [...TOOLS, ...extra].map((t) => `- ${t.name}: ${t.plannerHint}`).join("\n");
+}
+
+/** "- name: description" lines for the chat system prompt */
+export function chatToolLines(extra: readonly RegisteredTool[] = []): string {
+  return [...TOOLS, ...extra].map((t) => `- ${t.name}: ${t.description}`).join("\n");
+}
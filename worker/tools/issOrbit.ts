@@ -0,0 +1,172 @@
+// ISS orbit math - SGP4 propagation of the station's TLE for ground tracks and pass predictions
+import {
+  degreesLat,
+  degreesLong,
+  degreesToRadians,
+  ecfToLookAngles,
+  eciToEcf,
+  eciToGeodetic,
+  gstime,
+  jday,
+  propagate,
+  radiansToDegrees,
+  sunPos,
+  twoline2satrec,
+  type EciVec3,
+  type GeodeticLocation,
+  type SatRec,
+} from "satellite.js";
+
+/** Two-line element set as published by CelesTrak */
+export type Tle = { line1: string; line2: string };
+
+/** Ground-track sample; `t` in ms */
+export type TrackPoint = { t: number; lat: number; lon: number };
+
+/** One pass over an observer; times in ms, elevation in degrees */
+export type IssPass = {
+  rise: number;
+  culminate: number;
+  set: number;
+  maxElevation: number;
+  /** Station sunlit while the observer's sky is dark (sun below -6°) at some point of the pass */
+  visible: boolean;
+};
+
+export type Observer = { lat: number; lon: number };
+
+const AU_KM = 149_597_870.7;
+const EARTH_RADIUS_KM = 6378.137;
+// Civil twilight: darker than this and a sunlit station is easy to spot
+const DARK_SUN_ELEVATION = -6;
+// Passes that never climb above this are lost in trees and haze
+const MIN_PASS_ELEVATION = 10;
+const PASS_STEP_MS = 30_000;
+
+/** Parses a "name / line 1 / line 2" text block (the name line is optional) */
+export function parseTle(text: string): Tle | null {
+  const lines = text.split(/\r?\n/).map((l) => l.trim());
+  const line1 = lines.find((l) => l.startsWith("1 "));
+  const line2 = lines.find((l) => l.startsWith("2 "));
+  return line1 && line2 ? { line1, line2 } : null;
+}
+
+/** TLE epoch as a timestamp (ms) */
+export function tleEpoch(tle: Tle): number {
+  const sat = twoline2satrec(tle.line1, tle.line2);
+  // jdsatepoch is a Julian date; 2440587.5 is the Unix epoch
+  return Math.round((sat.jdsatepoch - 2440587.5) * 86_400_000);
+}
+
+function eciAt(sat: SatRec, t: number): EciVec3<number> | null {
+  const pv = propagate(sat, new Date(t));
+  const pos = pv?.position;
+  return pos && typeof pos === "object" ? pos : null;
+}
+
+/** Sub-satellite point (and altitude) at `t` */
+export function positionAt(tle: Tle, t: number): { lat: number; lon: number; altitude_km: number } | null {
+  const sat = twoline2satrec(tle.line1, tle.line2);
+  const eci = eciAt(sat, t);
+  if (!eci) return null;
+  const gd = eciToGeodetic(eci, gstime(new Date(t)));
+  return { lat: degreesLat(gd.latitude), lon: degreesLong(gd.longitude), altitude_km: gd.height };
+}
+
+/** Ground track from `from` to `to`, one point per `stepMs` */
+export function groundTrack(tle: Tle, from: number, to: number, stepMs = 60_000): TrackPoint[] {
+  const sat = twoline2satrec(tle.line1, tle.line2);
+  const out: TrackPoint[] = [];
+  for (let t = from; t <= to; t += stepMs) {
+    const eci = eciAt(sat, t);
+    if (!eci) continue;
+    const gd = eciToGeodetic(eci, gstime(new Date(t)));
+    out.push({ t, lat: round(degreesLat(gd.latitude)), lon: round(degreesLong(gd.longitude)) });
+  }
+  return out;
+}
+
+function round(n: number, digits = 3) {
+  const f = 10 ** digits;
+  return Math.round(n * f) / f;
+}
+
+/** Sun elevation (degrees) seen from the observer */
+function sunElevation(observer: GeodeticLocation, t: number): number {
+  const date = new Date(t);
+  const { rsun } = sunPos(jday(date));
+  const sunEci = { x: rsun[0] * AU_KM, y: rsun[1] * AU_KM, z: rsun[2] * AU_KM };
+  return radiansToDegrees(ecfToLookAngles(observer, eciToEcf(sunEci, gstime(date))).elevation);
+}
+
+/** Cylindrical Earth shadow - good enough to tell "sunlit" from "in eclipse" */
+function isSunlit(sat: EciVec3<number>, t: number): boolean {
+  const { rsun } = sunPos(jday(new Date(t)));
+  const norm = Math.hypot(rsun[0], rsun[1], rsun[2]);
+  const [sx, sy, sz] = [rsun[0] / norm, rsun[1] / norm, rsun[2] / norm];
+  const along = sat.x * sx + sat.y * sy + sat.z * sz;
+  if (along > 0) return true;
+  const perp = Math.hypot(sat.x - along * sx, sat.y - along * sy, sat.z - along * sz);
+  return perp > EARTH_RADIUS_KM;
+}
+
+/**
+ * Passes over `observer` between `from` and `to`. Rise/set are horizon
+ * crossings (interpolated between 30 s samples), and a pass already in
+ * progress at `from` rises at `from`; passes peaking below 10° are dropped.
+ */
+export function findPasses(tle: Tle, observer: Observer, from: number, to: number, limit = 10): IssPass[] {
+  const sat = twoline2satrec(tle.line1, tle.line2);
+  const site: GeodeticLocation = {
+    latitude: degreesToRadians(observer.lat),
+    longitude: degreesToRadians(observer.lon),
+    height: 0,
+  };
+  const elevationAt = (t: number) => {
+    const eci = eciAt(sat, t);
+    if (!eci) return null;
+    const el = radiansToDegrees(ecfToLookAngles(site, eciToEcf(eci, gstime(new Date(t)))).elevation);
+    return { eci, el };
+  };
+
+  const passes: IssPass[] = [];
+  let prev = elevationAt(from);
+  let current: IssPass | null = null;
+  // Already overhead at `from`: that pass is under way, so it rises now
+  if (prev && prev.el >= 0) {
+    const visible = sunElevation(site, from) < DARK_SUN_ELEVATION && isSunlit(prev.eci, from);
+    current = { rise: from, culminate: from, set: from, maxElevation: prev.el, visible };
+  }
+
+  for (let t = from + PASS_STEP_MS; t <= to && passes.length < limit; t += PASS_STEP_MS) {
+    const now = elevationAt(t);
+    if (!now || !prev) {
+      prev = now;
+      continue;
+    }
+    // Linear interpolation of the horizon crossing between the two samples
+    const crossing = t - PASS_STEP_MS + (PASS_STEP_MS * prev.el) / (prev.el - now.el);
+
+    if (!current && prev.el < 0 && now.el >= 0) {
+      current = { rise: Math.round(crossing), culminate: t, set: t, maxElevation: now.el, visible: false };
+    }
+    if (current) {
+      if (now.el > current.maxElevation) {
+        current.maxElevation = now.el;
+        current.culminate = t;
+      }
+      if (!current.visible && now.el >= 0 && sunElevation(site, t) < DARK_SUN_ELEVATION && isSunlit(now.eci, t)) {
+        current.visible = true;
+      }
+      if (now.el < 0) {
+        current.set = Math.round(crossing);
+        if (current.maxElevation >= MIN_PASS_ELEVATION) {
+          passes.push({ ...current, maxElevation: Math.round(current.maxElevation) });
+        }
+        current = null;
+      }
+    }
+    prev = now;
+  }
+  return passes;
+}
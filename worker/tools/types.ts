@@ -0,0 +1,110 @@
+// Shared shapes for tool definitions - every tool in worker/tools/ exports one
+
+/** Tool schema (Workers AI “function tool” shape) */
+export type FunctionToolSchema = {
+  readonly type: "function";
+  readonly function: {
+    readonly name: string;
+    readonly description: string;
+    readonly parameters: Readonly<Record<string, unknown>>;
+  };
+};
+
+/** Why a tool call failed - picks the reply the user sees (see worker/tools/http.ts) */
+export type ToolErrorCode = "timeout" | "upstream_4xx" | "upstream_5xx" | "malformed" | "not_found";
+
+/** `code` is absent for failures that aren't about the upstream call (bad args, nothing to look up) */
+export type ToolFailure = { ok: false; error: string; code?: ToolErrorCode };
+
+/** Every tool result is either ok or carries an error string */
+export type ToolResultBase = { ok: true } | ToolFailure;
+
+/** A transient upstream failure that the HTTP helper is about to retry */
+export type ToolRetry = { attempt: number; of: number; reason: string; delayMs: number };
+
+/** One row of the progress card shown while the tool runs */
+export type ToolStep = { key: string; label: string };
+
+/** Session cache for upstream responses, scoped to one tool */
+export type ToolCache = {
+  /**
+   * Returns the stored value for (`kind`, normalized `args`) if younger than
+   * `ttlMs`, otherwise runs `load` and stores the result (null/undefined are
+   * not stored; throwing skips the store too).
+   */
+  through<T>(kind: string, args: Record<string, unknown>, ttlMs: number, load: () => Promise<T>): Promise<T>;
+};
+
+/** Handed to executors so they can report progress */
+export type ToolContext = {
+  /** Advance the progress card to `key` (earlier steps are marked done) */
+  step: (key: string, message?: string) => void;
+  /** Fires when the user stops the turn - pass it to fetch */
+  signal: AbortSignal;
+  cache: ToolCache;
+  /** Report a retry on the progress card */
+  retry: (info: ToolRetry) => void;
+};
+
+/** `ctx.cache.through`, or a plain load when the tool runs without a context */
+export function cached<T>(
+  ctx: ToolContext | undefined,
+  kind: string,
+  args: Record<string, unknown>,
+  ttlMs: number,
+  load: () => Promise<T>
+): Promise<T> {
+  return ctx ? ctx.cache.through(kind, args, ttlMs, load) : load();
+}
+
+export type ToolDefinition<Name extends string, Args, Result extends ToolResultBase> = {
+  name: Name;
+  /** Progress card title */
+  title: string;
+  /** One-liner for the chat system prompt ("what can you do?") */
+  description: string;
+  /** Planner guidance: when to pick this tool and how to fill its args */
+  plannerHint: string;
+  schema: FunctionToolSchema & { readonly function: { readonly name: Name } };
+  /** Progress steps; the first one is active as soon as the tool starts */
+  steps: readonly ToolStep[];
+  /** Short assistant line sent before the tool runs */
+  preamble: string;
+  /** Assistant reply when the tool returns ok: false */
+  failureMessage: string;
+  /** Returns null when the planner's args are unusable */
+  validateArgs: (raw: unknown) => Args | null;
+  execute: (args: Args, ctx: ToolContext) => Promise<Result>;
+  /** Deterministic reply built from the result */
+  summarize: (result: Result) => string;
+  /** Plain-text facts for grounded synthesis (easier for the model than JSON) */
+  facts: (result: Result) => string;
+};
+
+/**
+ * Registry entry - args are opaque once validated so tools can live in one list.
+ * Method syntax keeps entries assignable to the erased `RegisteredTool`.
+ */
+export type RegisteredTool<Name extends string = string, Result extends ToolResultBase = ToolResultBase> =
+  Omit<ToolDefinition<Name, unknown, Result>, "validateArgs" | "execute" | "summarize" | "facts"> & {
+    validateArgs(raw: unknown): ToolArgs | null;
+    execute(args: ToolArgs, ctx: ToolContext): Promise<Result>;
+    summarize(result: Result): string;
+    facts(result: Result): string;
+  };
+
+declare const validated: unique symbol;
+/** Args that went through the owning tool's validateArgs */
+export type ToolArgs = { readonly [validated]: true };
+
+export function defineTool<const Name extends string, Args, Result extends ToolResultBase>(
+  def: ToolDefinition<Name, Args, Result>
+): RegisteredTool<Name, Result> {
+  return {
+    ...def,
+    validateArgs: (raw) => def.validateArgs(raw) as ToolArgs | null,
+    execute: (args, ctx) => def.execute(args as unknown as Args, ctx),
+    summarize: (result) => def.summarize(result),
+    facts: (result) => def.facts(result),
+  };
+}